@@ -189,7 +189,7 @@ export default function (plop) {
           type: 'add',
           path: `${servicePath}/__tests__/orchestrator.test.ts`,
           templateFile: 'plop-templates/service/test-orchestrator.hbs',
-          data: { isCalculation },
+          data: { isCalculation, operations },
         });
 
         actions.push({
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "orchestrator_runs" (
+    "id" TEXT NOT NULL,
+    "orchestrator" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "input" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "orchestrator_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "orchestrator_run_stages" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "stage" TEXT NOT NULL,
+    "state" JSONB NOT NULL,
+    "completedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "orchestrator_run_stages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "orchestrator_runs_orchestrator_status_idx" ON "orchestrator_runs"("orchestrator", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "orchestrator_run_stages_runId_stage_key" ON "orchestrator_run_stages"("runId", "stage");
+
+-- AddForeignKey
+ALTER TABLE "orchestrator_run_stages" ADD CONSTRAINT "orchestrator_run_stages_runId_fkey" FOREIGN KEY ("runId") REFERENCES "orchestrator_runs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -130,6 +130,16 @@ async function generateService(name, serviceType, operations) {
   await fs.writeFile(path.join(servicePath, 'index.ts'), facadeContent);
   console.log(`  ✅ Created index.ts (facade)`);
 
+  // 6. Generate orchestrator test (the template targets CRUD services)
+  if (serviceType !== 'calculation') {
+    const testContent = await processTemplate(
+      path.join(templatesPath, 'test-orchestrator.hbs'),
+      { name, operations }
+    );
+    await fs.writeFile(path.join(servicePath, '__tests__/orchestrator.test.ts'), testContent);
+    console.log(`  ✅ Created __tests__/orchestrator.test.ts`);
+  }
+
   console.log(`\n✨ ${pascalCase(name)} service generated successfully!`);
   console.log(`\n📁 Location: src/services/${kebabCase(name)}/`);
   console.log(`\n📝 Next steps:`);
@@ -2,15 +2,22 @@
 /**
  * Auto-Generate Grafana Dashboards from Orchestrators
  * 
- * Scans codebase for BaseOrchestrator implementations and automatically
- * generates Grafana dashboards with perfect 1:1 operation mapping.
+ * Loads every orchestrator module, constructs each orchestrator so it
+ * registers itself in the OrchestratorRegistry, and generates Grafana
+ * dashboards from the registered pipelines with perfect 1:1 operation mapping.
+ * 
+ * Orchestrators are constructed without arguments - their constructors only
+ * store dependencies, which are not used until `execute`.
  * 
  * Usage: npm run generate:dashboards
  */
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { pathToFileURL } from 'url';
 import globCallback from 'glob';
+import { BaseOrchestrator, OrchestratorRegistry } from '../src/core/orchestration/index.js';
+import type { OrchestratorInfo } from '../src/core/orchestration/index.js';
 
 // Simple promisified glob
 function glob(pattern: string, options?: any): Promise<string[]> {
@@ -30,17 +37,14 @@ interface Operation {
 interface OrchestratorMetadata {
   serviceName: string;
   displayName: string;
-  fileName: string;
   operations: Operation[];
   uid: string;
 }
 
 /**
- * Discover all orchestrators in the codebase
+ * Discover all orchestrators through the registry
  */
 async function discoverOrchestrators(): Promise<OrchestratorMetadata[]> {
-  const orchestrators: OrchestratorMetadata[] = [];
-  
   // Find all orchestrator files
   const files = await glob('src/services/**/*orchestrator.ts', {
     ignore: ['**/*.test.ts', '**/node_modules/**'],
@@ -50,42 +54,35 @@ async function discoverOrchestrators(): Promise<OrchestratorMetadata[]> {
   
   for (const file of files) {
     try {
-      const metadata = await extractOrchestratorMetadata(file);
-      if (metadata) {
-        orchestrators.push(metadata);
-        console.log(`✅ ${metadata.serviceName} (${metadata.operations.length} operations)`);
+      const module = await import(pathToFileURL(path.resolve(file)).href);
+      for (const exported of Object.values(module)) {
+        if (typeof exported === 'function' && exported.prototype instanceof BaseOrchestrator) {
+          // Self-registers in the OrchestratorRegistry
+          new (exported as new () => BaseOrchestrator<any, unknown>)();
+        }
       }
     } catch (error) {
-      console.warn(`⚠️  Failed to parse ${file}:`, (error as Error).message);
+      console.warn(`⚠️  Failed to load ${file}:`, (error as Error).message);
     }
   }
   
+  const orchestrators = OrchestratorRegistry.list()
+    .map(toMetadata)
+    .filter((metadata) => metadata.operations.length > 0);
+  
+  for (const metadata of orchestrators) {
+    console.log(`✅ ${metadata.serviceName} (${metadata.operations.length} operations)`);
+  }
+  
   return orchestrators;
 }
 
 /**
- * Extract metadata from orchestrator file
+ * Build dashboard metadata from a registered orchestrator
  */
-async function extractOrchestratorMetadata(filePath: string): Promise<OrchestratorMetadata | null> {
-  const content = await fs.readFile(filePath, 'utf-8');
-  
-  // Check if it extends BaseOrchestrator
-  if (!content.includes('extends BaseOrchestrator')) {
-    return null;
-  }
-  
-  // Extract class name
-  const classNameMatch = content.match(/class (\w+)/);
-  if (!classNameMatch) return null;
-  
-  const className = classNameMatch[1];
-  const serviceName = className; // Use FULL class name for metrics matching
-  const displayName = className.replace(/Orchestrator$/, ''); // Strip "Orchestrator" suffix only
-  
-  // Extract operations from getPipeline()
-  const operations = extractOperations(content);
-  
-  if (operations.length === 0) return null;
+function toMetadata(info: OrchestratorInfo): OrchestratorMetadata {
+  const serviceName = info.name; // Use FULL orchestrator name for metrics matching
+  const displayName = serviceName.replace(/Orchestrator$/, ''); // Strip "Orchestrator" suffix only
   
   // Generate UID
   const uid = displayName.toLowerCase().replace(/\s+/g, '-') + '-performance';
@@ -93,46 +90,18 @@ async function extractOrchestratorMetadata(filePath: string): Promise<Orchestrat
   return {
     serviceName, // Full name: "CreateTodoOrchestrator"
     displayName: `${displayName} Performance`, // Display: "CreateTodo Performance"
-    fileName: path.basename(filePath),
-    operations,
+    operations: info.stages.map((stage) => ({
+      name: stage.name,
+      // Convert kebab-case to Display Name
+      displayName: stage.name
+        .split('-')
+        .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(' '),
+    })),
     uid,
   };
 }
 
-/**
- * Extract operations from getPipeline() method
- */
-function extractOperations(content: string): Operation[] {
-  const operations: Operation[] = [];
-  
-  // Find getPipeline() method
-  const pipelineMatch = content.match(/getPipeline\(\)[\s\S]*?return\s*\[([\s\S]*?)\];/);
-  if (!pipelineMatch) return operations;
-  
-  const pipelineContent = pipelineMatch[1];
-  
-  // Extract each stage definition (name: 'xxx')
-  const stageRegex = /name:\s*['"]([^'"]+)['"]/g;
-  let match;
-  
-  while ((match = stageRegex.exec(pipelineContent)) !== null) {
-    const name = match[1];
-    
-    // Convert kebab-case to Display Name
-    const displayName = name
-      .split('-')
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(' ');
-    
-    operations.push({
-      name,
-      displayName,
-    });
-  }
-  
-  return operations;
-}
-
 /**
  * Generate Grafana dashboard JSON (DriftOS Style)
  */
@@ -380,7 +349,7 @@ function generateDashboard(metadata: OrchestratorMetadata) {
  */
 async function main() {
   console.log('🎨 Grafana Dashboard Generator\n');
-  console.log('Scanning for orchestrators...\n');
+  console.log('Loading orchestrators...\n');
   
   const orchestrators = await discoverOrchestrators();
   
@@ -4,10 +4,16 @@ import { logger } from './utils/logger.js';
 
 // Import plugins
 import envPlugin from './plugins/env.js';
+import tracingPlugin from './plugins/tracing.js';
+import requestContextPlugin from './plugins/request-context.js';
+import faultInjectionPlugin from './plugins/fault-injection.js';
 import corsPlugin from './plugins/cors.js';
 import prismaPlugin from './plugins/prisma.js';
+import jobQueuePlugin from './plugins/job-queue.js';
+import runEventsPlugin from './plugins/run-events.js';
 import authPlugin from './plugins/auth.js';
 import metricsPlugin from './plugins/metrics.js';
+import requestAbortPlugin from './plugins/request-abort.js';
 import swaggerPlugin from './plugins/swagger.js';
 
 // Import routes
@@ -17,6 +23,8 @@ import authRoutes from './routes/auth/index';
 import userRoutes from './routes/users/index';
 import exampleRoutes from './routes/example/index';
 import todoRoutes from './routes/todos/index';
+import adminRoutes from './routes/admin/index';
+import runRoutes from './routes/runs/index';
 
 export async function buildApp() {
   const app = Fastify({
@@ -30,10 +38,16 @@ export async function buildApp() {
 
   // Register plugins in correct order
   await app.register(envPlugin);
+  await app.register(tracingPlugin);
+  await app.register(requestContextPlugin);
+  await app.register(faultInjectionPlugin);
   await app.register(corsPlugin);
   await app.register(prismaPlugin);
+  await app.register(jobQueuePlugin);
+  await app.register(runEventsPlugin);
   await app.register(authPlugin);
   await app.register(metricsPlugin);
+  await app.register(requestAbortPlugin);
   await app.register(swaggerPlugin);
 
   // Register sensible plugin for useful decorators
@@ -73,6 +87,12 @@ export async function buildApp() {
 
       // Todo routes (demonstrates Golden Orchestrator pattern)
       await fastify.register(todoRoutes, { prefix: '/todos' });
+
+      // Run event streams (progress of orchestrator runs over SSE)
+      await fastify.register(runRoutes, { prefix: '/runs' });
+
+      // Admin routes (admin role only)
+      await fastify.register(adminRoutes, { prefix: '/admin' });
     },
     { prefix: `${app.config.API_PREFIX}/${app.config.API_VERSION}` }
   );
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { RequestContext } from '@core/context/index.js';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('RequestContext', () => {
+  it('is empty outside of a request', () => {
+    expect(RequestContext.get()).toBeUndefined();
+    expect(RequestContext.remaining()).toBeUndefined();
+  });
+
+  it('follows the request across awaits and keeps concurrent requests apart', async () => {
+    const seen = await Promise.all(
+      ['a', 'b'].map((requestId) =>
+        RequestContext.run({ requestId, user: { id: `user-${requestId}` } }, async () => {
+          await delay(requestId === 'a' ? 10 : 0);
+          return `${RequestContext.requestId()}:${RequestContext.user()?.id}`;
+        })
+      )
+    );
+
+    expect(seen).toEqual(['a:user-a', 'b:user-b']);
+  });
+
+  it('reports the time left until the deadline, never below zero', () => {
+    RequestContext.run({ requestId: 'a', deadline: Date.now() + 1000 }, () => {
+      expect(RequestContext.remaining()).toBeGreaterThan(900);
+    });
+    RequestContext.run({ requestId: 'b', deadline: Date.now() - 1000 }, () => {
+      expect(RequestContext.remaining()).toBe(0);
+    });
+  });
+});
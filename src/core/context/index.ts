@@ -0,0 +1,5 @@
+/**
+ * Core request context exports
+ */
+export { RequestContext } from './request-context.js';
+export type { RequestContextStore, RequestUser } from './types.js';
@@ -0,0 +1,47 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { BaseLogger } from 'pino';
+import type { RequestContextStore, RequestUser } from './types.js';
+
+const storage = new AsyncLocalStorage<RequestContextStore>();
+
+/**
+ * Request-scoped state carried across async calls, so that orchestrators,
+ * services and the logger can see the current request without it being
+ * passed through every signature
+ */
+export class RequestContext {
+  /**
+   * Run `fn` with `store` as the current request context
+   */
+  static run<T>(store: RequestContextStore, fn: () => T): T {
+    return storage.run(store, fn);
+  }
+
+  /**
+   * The current request context, or undefined outside of a request
+   */
+  static get(): RequestContextStore | undefined {
+    return storage.getStore();
+  }
+
+  static requestId(): string | undefined {
+    return storage.getStore()?.requestId;
+  }
+
+  static user(): RequestUser | undefined {
+    return storage.getStore()?.user;
+  }
+
+  static logger(): BaseLogger | undefined {
+    return storage.getStore()?.logger;
+  }
+
+  /**
+   * Milliseconds left until the request deadline, or undefined when there
+   * is no request or it has no deadline
+   */
+  static remaining(): number | undefined {
+    const deadline = storage.getStore()?.deadline;
+    return deadline === undefined ? undefined : Math.max(deadline - Date.now(), 0);
+  }
+}
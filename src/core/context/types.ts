@@ -0,0 +1,26 @@
+import type { BaseLogger } from 'pino';
+
+/**
+ * The authenticated caller of a request
+ */
+export interface RequestUser {
+  id: string;
+  email?: string;
+  role?: string;
+}
+
+/**
+ * Everything known about the request the current code runs on behalf of
+ */
+export interface RequestContextStore {
+  /** Fastify's request id, taken from `x-request-id` when the client sent one */
+  requestId: string;
+  /** Set once the request has been authenticated */
+  user?: RequestUser;
+  /** Logger bound to the request */
+  logger?: BaseLogger;
+  /** Epoch ms by which the request should have been answered */
+  deadline?: number;
+  /** Stages the request asked to inject faults into, see FaultInjection */
+  faults?: string[];
+}
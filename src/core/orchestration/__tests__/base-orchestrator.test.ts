@@ -0,0 +1,1634 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import pino from 'pino';
+import { Type } from '@sinclair/typebox';
+import {
+  BaseOrchestrator,
+  CircuitOpenError,
+  FaultInjection,
+  IdempotencyConflictError,
+  IdempotencyMismatchError,
+  InjectedFaultError,
+  NestedOrchestratorError,
+  OrchestratorError,
+  OrchestratorOverloadError,
+  OrchestratorTimeoutError,
+  OrchestratorValidationError,
+  RunEventStream,
+  StageRetry,
+} from '@core/orchestration/index.js';
+import type {
+  IdempotencyRecord,
+  IdempotencyStore,
+  OperationContext,
+  OrchestratorConfig,
+  FaultRule,
+  OrchestratorMiddleware,
+  PipelineStage,
+  RunStore,
+  StoredRun,
+  TransactionRunner,
+} from '@core/orchestration/index.js';
+import type { JobHandler, JobQueue } from '@core/queue/index.js';
+import { RequestContext } from '@core/context/index.js';
+import { OrchestratorMetrics } from '@core/orchestration/orchestrator-metrics.js';
+
+interface TestContext extends OperationContext {
+  order: string[];
+  left?: string;
+  right?: string;
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+class TestOrchestrator extends BaseOrchestrator<TestContext, TestContext> {
+  constructor(
+    private stages: PipelineStage<TestContext>[],
+    config: Partial<OrchestratorConfig> = {}
+  ) {
+    super({
+      name: 'TestOrchestrator',
+      timeout: 1000,
+      enableMetrics: false,
+      logErrors: false,
+      ...config,
+    });
+  }
+
+  protected initializeContext(): Promise<TestContext> {
+    return Promise.resolve({
+      requestId: 'test',
+      startTime: Date.now(),
+      order: [],
+      results: {},
+      errors: [],
+      metadata: {},
+    });
+  }
+
+  protected getPipeline(): PipelineStage<TestContext>[] {
+    return this.stages;
+  }
+
+  protected buildResult(context: TestContext): TestContext {
+    return context;
+  }
+}
+
+class MemoryIdempotencyStore implements IdempotencyStore {
+  records = new Map<string, IdempotencyRecord>();
+  leases: number[] = [];
+
+  claim(
+    scope: string,
+    key: string,
+    leaseMs: number,
+    fingerprint: string
+  ): Promise<IdempotencyRecord | undefined> {
+    this.leases.push(leaseMs);
+    const existing = this.records.get(`${scope}:${key}`);
+    if (!existing) {
+      this.records.set(`${scope}:${key}`, { status: 'in_progress', fingerprint });
+    }
+    return Promise.resolve(existing);
+  }
+
+  complete(scope: string, key: string, data: unknown): Promise<void> {
+    const claimed = this.records.get(`${scope}:${key}`);
+    this.records.set(`${scope}:${key}`, {
+      status: 'completed',
+      data: JSON.parse(JSON.stringify(data)) as unknown,
+      fingerprint: claimed?.fingerprint,
+    });
+    return Promise.resolve();
+  }
+
+  release(scope: string, key: string): Promise<void> {
+    this.records.delete(`${scope}:${key}`);
+    return Promise.resolve();
+  }
+}
+
+class MemoryRunStore implements RunStore {
+  runs = new Map<string, StoredRun & { status: string }>();
+  staleAfter: number[] = [];
+
+  start(_orchestrator: string, input: unknown): Promise<string> {
+    const id = `run-${this.runs.size + 1}`;
+    this.runs.set(id, { id, input, stages: [], status: 'running' });
+    return Promise.resolve(id);
+  }
+
+  checkpoint(runId: string, stage: string, state: unknown): Promise<void> {
+    this.runs.get(runId)?.stages.push({ name: stage, state: JSON.parse(JSON.stringify(state)) });
+    return Promise.resolve();
+  }
+
+  finish(runId: string, status: 'completed' | 'failed'): Promise<void> {
+    const run = this.runs.get(runId);
+    if (run) {
+      run.status = status;
+    }
+    return Promise.resolve();
+  }
+
+  claimStale(_orchestrator: string, staleMs: number): Promise<StoredRun[]> {
+    this.staleAfter.push(staleMs);
+    return Promise.resolve([...this.runs.values()].filter((run) => run.status === 'running'));
+  }
+}
+
+class MemoryJobQueue implements JobQueue {
+  handlers = new Map<string, JobHandler>();
+  jobs: Array<{ type: string; payload: unknown }> = [];
+
+  register(type: string, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  enqueue(type: string, payload: unknown): Promise<string> {
+    this.jobs.push({ type, payload: JSON.parse(JSON.stringify(payload)) });
+    return Promise.resolve(`job-${this.jobs.length}`);
+  }
+
+  async runAll(): Promise<void> {
+    for (const { type, payload } of this.jobs.splice(0)) {
+      await this.handlers.get(type)?.(payload, { id: 'job', type, attempt: 1 });
+    }
+  }
+}
+
+class MemoryTransactionRunner implements TransactionRunner {
+  outcomes: string[] = [];
+
+  async run<T>(fn: (tx: unknown) => Promise<T>): Promise<T> {
+    try {
+      const result = await fn(`tx-${this.outcomes.length + 1}`);
+      this.outcomes.push('commit');
+      return result;
+    } catch (error) {
+      this.outcomes.push('rollback');
+      throw error;
+    }
+  }
+}
+
+const step =
+  (name: string, ms = 0, patch: Partial<TestContext> = {}) =>
+  async (context: TestContext): Promise<TestContext> => {
+    context.order.push(`${name}:start`);
+    await delay(ms);
+    context.order.push(`${name}:end`);
+    return { ...context, ...patch };
+  };
+
+describe('BaseOrchestrator', () => {
+  describe('dependency graph', () => {
+    it('runs stages sequentially by default', async () => {
+      const result = await new TestOrchestrator([
+        { name: 'a', operation: step('a', 5) },
+        { name: 'b', operation: step('b') },
+      ]).execute(undefined);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.order).toEqual(['a:start', 'a:end', 'b:start', 'b:end']);
+    });
+
+    it('runs independent stages concurrently and merges their changes', async () => {
+      const result = await new TestOrchestrator([
+        { name: 'load', operation: step('load') },
+        { name: 'left', operation: step('left', 20, { left: 'L' }), dependsOn: ['load'] },
+        { name: 'right', operation: step('right', 20, { right: 'R' }), dependsOn: ['load'] },
+        { name: 'join', operation: step('join'), dependsOn: ['left', 'right'] },
+      ]).execute(undefined);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.order.slice(2, 4)).toEqual(['left:start', 'right:start']);
+      expect(result.data?.order.slice(-2)).toEqual(['join:start', 'join:end']);
+      expect(result.data?.left).toBe('L');
+      expect(result.data?.right).toBe('R');
+    });
+
+    it('fails the pipeline when a critical parallel stage fails', async () => {
+      const result = await new TestOrchestrator([
+        { name: 'ok', operation: step('ok'), dependsOn: [] },
+        {
+          name: 'broken',
+          operation: () => Promise.reject(new Error('boom')),
+          dependsOn: [],
+          critical: true,
+        },
+      ]).execute(undefined);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain("'broken'");
+    });
+
+    it('rejects cyclic graphs before running any stage', async () => {
+      const ran: string[] = [];
+      const result = await new TestOrchestrator([
+        {
+          name: 'a',
+          operation: (ctx) => (ran.push('a'), Promise.resolve(ctx)),
+          dependsOn: ['b'],
+        },
+        {
+          name: 'b',
+          operation: (ctx) => (ran.push('b'), Promise.resolve(ctx)),
+          dependsOn: ['a'],
+        },
+      ]).execute(undefined);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain('Cyclic');
+      expect(ran).toEqual([]);
+    });
+
+    it('rejects unknown dependencies', async () => {
+      const result = await new TestOrchestrator([
+        { name: 'a', operation: step('a'), dependsOn: ['missing'] },
+      ]).execute(undefined);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain("unknown stage 'missing'");
+    });
+  });
+
+  describe('retry policy', () => {
+    const flaky = (failures: number, error = new Error('transient')) => {
+      let calls = 0;
+      return vi.fn(async (context: TestContext) => {
+        calls++;
+        if (calls <= failures) throw error;
+        return Promise.resolve(context);
+      });
+    };
+
+    it('retries a failing stage until it succeeds', async () => {
+      const operation = flaky(2);
+      const result = await new TestOrchestrator(
+        [{ name: 'flaky', operation, critical: true, retry: { maxAttempts: 3, initialDelay: 1 } }],
+        { enableMetrics: true }
+      ).execute(undefined);
+
+      expect(result.success).toBe(true);
+      expect(operation).toHaveBeenCalledTimes(3);
+      expect(result.metrics?.['flaky_attempts']).toBe(3);
+    });
+
+    it('gives up after maxAttempts', async () => {
+      const operation = flaky(5);
+      const result = await new TestOrchestrator(
+        [{ name: 'flaky', operation, critical: true, retry: { maxAttempts: 2, initialDelay: 1 } }],
+        { enableMetrics: true }
+      ).execute(undefined);
+
+      expect(result.success).toBe(false);
+      expect(operation).toHaveBeenCalledTimes(2);
+      expect(result.metrics?.['flaky_attempts']).toBe(2);
+    });
+
+    it('does not retry errors rejected by retryOn', async () => {
+      const operation = flaky(1, new Error('permanent'));
+      const result = await new TestOrchestrator([
+        {
+          name: 'flaky',
+          operation,
+          critical: true,
+          retry: { maxAttempts: 3, initialDelay: 1, retryOn: () => false },
+        },
+      ]).execute(undefined);
+
+      expect(result.success).toBe(false);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('computes exponential backoff capped by maxDelay', () => {
+      const policy = { maxAttempts: 5, initialDelay: 100, multiplier: 2, maxDelay: 300 };
+
+      expect(StageRetry.delayFor(policy, 1)).toBe(100);
+      expect(StageRetry.delayFor(policy, 2)).toBe(200);
+      expect(StageRetry.delayFor(policy, 3)).toBe(300);
+    });
+  });
+
+  describe('compensation', () => {
+    it('undoes completed stages in reverse order when a critical stage fails', async () => {
+      const undone: string[] = [];
+      const undo = (name: string) => () => (undone.push(name), Promise.resolve());
+
+      const result = await new TestOrchestrator([
+        { name: 'order', operation: step('order'), compensate: undo('order') },
+        { name: 'reserve', operation: step('reserve'), compensate: undo('reserve') },
+        { name: 'audit', operation: step('audit') },
+        { name: 'charge', operation: () => Promise.reject(new Error('declined')), critical: true },
+      ]).execute(undefined);
+
+      expect(result.success).toBe(false);
+      expect(undone).toEqual(['reserve', 'order']);
+      expect(result.compensations).toEqual([
+        { stage: 'reserve', status: 'compensated' },
+        { stage: 'order', status: 'compensated' },
+      ]);
+    });
+
+    it('reports failed compensations and keeps going', async () => {
+      const result = await new TestOrchestrator([
+        { name: 'order', operation: step('order'), compensate: () => Promise.resolve() },
+        {
+          name: 'reserve',
+          operation: step('reserve'),
+          compensate: () => Promise.reject(new Error('stock service down')),
+        },
+        { name: 'charge', operation: () => Promise.reject(new Error('declined')), critical: true },
+      ]).execute(undefined);
+
+      expect(result.compensations?.map((c) => [c.stage, c.status])).toEqual([
+        ['reserve', 'failed'],
+        ['order', 'compensated'],
+      ]);
+      expect(result.compensations?.[0]?.error?.message).toBe('stock service down');
+    });
+
+    it('does not compensate successful pipelines', async () => {
+      const compensate = vi.fn(() => Promise.resolve());
+      const result = await new TestOrchestrator([
+        { name: 'order', operation: step('order'), compensate },
+      ]).execute(undefined);
+
+      expect(result.success).toBe(true);
+      expect(result.compensations).toBeUndefined();
+      expect(compensate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancellation', () => {
+    it('aborts the stage signal when the stage times out', async () => {
+      let signal: AbortSignal | undefined;
+      const result = await new TestOrchestrator([
+        {
+          name: 'slow',
+          operation: async (ctx) => {
+            signal = ctx.signal;
+            await delay(50);
+            return ctx;
+          },
+          timeout: 10,
+        },
+      ]).execute(undefined);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.errors[0]?.message).toContain("Stage 'slow' timeout");
+      expect(signal?.aborted).toBe(true);
+    });
+
+    it('never starts later stages after the pipeline times out', async () => {
+      const later = vi.fn((ctx: TestContext) => Promise.resolve(ctx));
+      const orchestrator = new TestOrchestrator(
+        [
+          { name: 'slow', operation: step('slow', 60) },
+          { name: 'later', operation: later },
+        ],
+        { timeout: 20 }
+      );
+
+      const result = await orchestrator.execute(undefined);
+      await delay(60);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain('Pipeline timeout');
+      expect(later).not.toHaveBeenCalled();
+    });
+
+    it('stops when the caller aborts', async () => {
+      const controller = new AbortController();
+      const later = vi.fn((ctx: TestContext) => Promise.resolve(ctx));
+      setTimeout(() => controller.abort(new Error('Client disconnected')), 10);
+
+      const result = await new TestOrchestrator([
+        { name: 'slow', operation: step('slow', 50) },
+        { name: 'later', operation: later },
+      ]).execute(undefined, { signal: controller.signal });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('Client disconnected');
+      expect(later).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('conditional stages', () => {
+    it('skips stages whose condition is false and reports them', async () => {
+      const skippedOperation = vi.fn((ctx: TestContext) => Promise.resolve(ctx));
+      const result = await new TestOrchestrator([
+        { name: 'a', operation: step('a', 0, { left: 'L' }) },
+        { name: 'b', operation: skippedOperation, when: (ctx) => !ctx.left },
+        { name: 'c', operation: step('c'), when: (ctx) => ctx.left === 'L' },
+      ]).execute(undefined);
+
+      expect(result.success).toBe(true);
+      expect(skippedOperation).not.toHaveBeenCalled();
+      expect(result.skipped).toEqual(['b']);
+      expect(result.data?.order).toContain('c:end');
+    });
+
+    it('does not compensate skipped stages', async () => {
+      const compensate = vi.fn(() => Promise.resolve());
+      const result = await new TestOrchestrator([
+        { name: 'a', operation: step('a'), when: () => false, compensate },
+        { name: 'b', operation: () => Promise.reject(new Error('boom')), critical: true },
+      ]).execute(undefined);
+
+      expect(result.success).toBe(false);
+      expect(compensate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('stage reports', () => {
+    it('reports every stage with its status, timing and attempts', async () => {
+      const result = await new TestOrchestrator([
+        { name: 'a', operation: step('a', 5) },
+        { name: 'b', operation: step('b'), when: () => false },
+        {
+          name: 'c',
+          operation: () => Promise.reject(new Error('optional')),
+          retry: { maxAttempts: 2, initialDelay: 1 },
+        },
+        { name: 'd', operation: step('d', 50), timeout: 5 },
+      ]).execute(undefined);
+
+      expect(result.success).toBe(true);
+      expect(result.stages.map((s) => [s.name, s.status, s.attempts])).toEqual([
+        ['a', 'success', 1],
+        ['b', 'skipped', 0],
+        ['c', 'failed', 2],
+        ['d', 'timed_out', 1],
+      ]);
+      expect(result.stages[0]?.duration).toBeGreaterThanOrEqual(4);
+      expect(result.stages[1]?.startOffset).toBeGreaterThanOrEqual(result.stages[0]?.duration ?? 0);
+      expect(result.stages[2]?.error?.message).toBe('optional');
+    });
+
+    it('returns an OrchestratorError naming the failed stage', async () => {
+      const cause = new Error('db down');
+      const result = await new TestOrchestrator([
+        { name: 'a', operation: step('a') },
+        { name: 'write', operation: () => Promise.reject(cause), critical: true },
+      ]).execute(undefined);
+
+      expect(result.error).toBeInstanceOf(OrchestratorError);
+      expect(result.error?.stage).toBe('write');
+      expect(result.error?.originalError).toBe(cause);
+    });
+
+    it('attributes a pipeline timeout to the running stage', async () => {
+      const result = await new TestOrchestrator(
+        [
+          { name: 'fast', operation: step('fast') },
+          { name: 'slow', operation: step('slow', 60) },
+        ],
+        { timeout: 20 }
+      ).execute(undefined);
+
+      expect(result.error).toBeInstanceOf(OrchestratorTimeoutError);
+      expect(result.error?.stage).toBe('slow');
+      expect(result.stages.map((s) => [s.name, s.status])).toEqual([
+        ['fast', 'success'],
+        ['slow', 'timed_out'],
+      ]);
+    });
+    it('counts each failure once in the error metric', async () => {
+      const errorCount = async (service: string) => {
+        const { values } = await OrchestratorMetrics.pipelineErrors.get();
+        return values
+          .filter((entry) => entry.labels.service === service)
+          .map((entry) => [entry.labels.stage, entry.value]);
+      };
+
+      await new TestOrchestrator(
+        [
+          {
+            name: 'write',
+            operation: () => Promise.reject(new Error('disk full')),
+            critical: true,
+          },
+        ],
+        { name: 'CriticalErrorOrchestrator', enableMetrics: true }
+      ).execute(undefined);
+      await new TestOrchestrator([{ name: 'slow', operation: step('slow', 60) }], {
+        name: 'TimeoutErrorOrchestrator',
+        enableMetrics: true,
+        timeout: 20,
+      }).execute(undefined);
+      await delay(60);
+
+      expect(await errorCount('CriticalErrorOrchestrator')).toEqual([['write', 1]]);
+      expect(await errorCount('TimeoutErrorOrchestrator')).toEqual([['slow', 1]]);
+    });
+  });
+
+  describe('performance tracker', () => {
+    it('runs with a custom tracker that leaves out the optional members', async () => {
+      const tracked: string[] = [];
+      class CustomTrackerOrchestrator extends TestOrchestrator {
+        protected async initializeContext(): Promise<TestContext> {
+          const context = await super.initializeContext();
+          context.perfTracker = {
+            track: (stage) => tracked.push(stage),
+            getMetrics: () => ({}),
+            getTotalDuration: () => 0,
+          };
+          return context;
+        }
+      }
+
+      const result = await new CustomTrackerOrchestrator([
+        {
+          name: 'flaky',
+          operation: vi
+            .fn<[TestContext], Promise<TestContext>>()
+            .mockRejectedValueOnce(new Error('transient'))
+            .mockImplementation((context) => Promise.resolve(context)),
+          critical: true,
+          retry: { maxAttempts: 2, initialDelay: 1 },
+        },
+      ]).execute(undefined);
+
+      expect(result.success).toBe(true);
+      expect(tracked).toEqual(['flaky']);
+      expect(result.timings).toBeUndefined();
+    });
+  });
+
+  describe('middleware', () => {
+    const recorder = (name: string, calls: string[]): OrchestratorMiddleware<TestContext> => ({
+      name,
+      beforeExecute: () => {
+        calls.push(`${name}:beforeExecute`);
+      },
+      beforeStage: (_context, stage) => {
+        calls.push(`${name}:beforeStage:${stage.name}`);
+      },
+      afterStage: (_context, stage, report) => {
+        calls.push(`${name}:afterStage:${stage.name}:${report.status}`);
+      },
+      onStageError: (_context, stage, error) => {
+        calls.push(`${name}:onStageError:${stage.name}:${error.message}`);
+      },
+      afterExecute: (_context, result) => {
+        calls.push(`${name}:afterExecute:${result.success}`);
+      },
+    });
+
+    it('runs global middleware before per-orchestrator middleware at every hook', async () => {
+      const calls: string[] = [];
+      const remove = BaseOrchestrator.use(recorder('global', calls));
+
+      try {
+        await new TestOrchestrator([
+          { name: 'a', operation: step('a') },
+          { name: 'b', operation: step('b'), when: () => false },
+          { name: 'c', operation: () => Promise.reject(new Error('optional')) },
+        ])
+          .use(recorder('local', calls))
+          .execute(undefined);
+      } finally {
+        remove();
+      }
+
+      expect(calls).toEqual([
+        'global:beforeExecute',
+        'local:beforeExecute',
+        'global:beforeStage:a',
+        'local:beforeStage:a',
+        'global:afterStage:a:success',
+        'local:afterStage:a:success',
+        'global:afterStage:b:skipped',
+        'local:afterStage:b:skipped',
+        'global:beforeStage:c',
+        'local:beforeStage:c',
+        'global:onStageError:c:optional',
+        'local:onStageError:c:optional',
+        'global:afterExecute:true',
+        'local:afterExecute:true',
+      ]);
+    });
+
+    it('stops applying global middleware once removed', async () => {
+      const beforeExecute = vi.fn();
+      BaseOrchestrator.use({ name: 'removed', beforeExecute })();
+
+      await new TestOrchestrator([{ name: 'a', operation: step('a') }]).execute(undefined);
+
+      expect(beforeExecute).not.toHaveBeenCalled();
+    });
+
+    it('fails the stage when beforeStage throws', async () => {
+      const operation = vi.fn(step('a'));
+      const result = await new TestOrchestrator([{ name: 'a', operation, critical: true }])
+        .use({
+          name: 'guard',
+          beforeStage: () => {
+            throw new Error('not allowed');
+          },
+        })
+        .execute(undefined);
+
+      expect(operation).not.toHaveBeenCalled();
+      expect(result.error?.stage).toBe('a');
+      expect(result.error?.message).toContain('not allowed');
+    });
+
+    it('fails the run when beforeExecute throws', async () => {
+      const result = await new TestOrchestrator([{ name: 'a', operation: step('a') }])
+        .use({
+          name: 'guard',
+          beforeExecute: () => Promise.reject(new Error('quota exceeded')),
+        })
+        .execute(undefined);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.stage).toBe('before-execute');
+      expect(result.stages).toEqual([]);
+    });
+
+    it('ignores failures of observing hooks', async () => {
+      const result = await new TestOrchestrator([{ name: 'a', operation: step('a') }])
+        .use({
+          name: 'broken',
+          afterStage: () => {
+            throw new Error('audit log unavailable');
+          },
+          afterExecute: () => Promise.reject(new Error('audit log unavailable')),
+        })
+        .execute(undefined);
+
+      expect(result.success).toBe(true);
+    });
+
+    it('tracks stage performance through the built-in middleware', async () => {
+      const result = await new TestOrchestrator(
+        [
+          { name: 'a', operation: step('a', 5) },
+          {
+            name: 'b',
+            operation: () => Promise.reject(new Error('optional')),
+            retry: { maxAttempts: 2, initialDelay: 1 },
+          },
+        ],
+        { enableMetrics: true }
+      ).execute(undefined);
+
+      expect(result.metrics?.a).toBeGreaterThanOrEqual(4);
+      expect(result.metrics).toHaveProperty('b_error');
+      expect(result.metrics?.b_attempts).toBe(2);
+    });
+  });
+
+  describe('idempotency', () => {
+    it('runs the pipeline once and replays the stored result', async () => {
+      const store = new MemoryIdempotencyStore();
+      const operation = vi.fn(step('a', 0, { left: 'created' }));
+      const orchestrator = new TestOrchestrator([{ name: 'a', operation }], {
+        idempotency: { store },
+      });
+
+      const first = await orchestrator.execute(undefined, { idempotencyKey: 'key-1' });
+      const second = await orchestrator.execute(undefined, { idempotencyKey: 'key-1' });
+
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(first.replayed).toBeUndefined();
+      expect(second.success).toBe(true);
+      expect(second.replayed).toBe(true);
+      expect(second.data?.left).toBe('created');
+    });
+
+    it('rejects a duplicate while the first run is in progress', async () => {
+      const store = new MemoryIdempotencyStore();
+      const orchestrator = new TestOrchestrator([{ name: 'a', operation: step('a', 30) }], {
+        idempotency: { store },
+      });
+
+      const [first, second] = await Promise.all([
+        orchestrator.execute(undefined, { idempotencyKey: 'key-1' }),
+        orchestrator.execute(undefined, { idempotencyKey: 'key-1' }),
+      ]);
+
+      expect(first.success).toBe(true);
+      expect(second.error).toBeInstanceOf(IdempotencyConflictError);
+      expect(second.error?.stage).toBe('idempotency');
+    });
+
+    it('releases the key when the run fails', async () => {
+      const store = new MemoryIdempotencyStore();
+      const operation = vi
+        .fn<[TestContext], Promise<TestContext>>()
+        .mockRejectedValueOnce(new Error('db down'))
+        .mockImplementation(step('a'));
+      const orchestrator = new TestOrchestrator([{ name: 'a', operation, critical: true }], {
+        idempotency: { store },
+      });
+
+      const first = await orchestrator.execute(undefined, { idempotencyKey: 'key-1' });
+      const retry = await orchestrator.execute(undefined, { idempotencyKey: 'key-1' });
+
+      expect(first.success).toBe(false);
+      expect(retry.success).toBe(true);
+      expect(retry.replayed).toBeUndefined();
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('rejects a key reused with a different input', async () => {
+      const store = new MemoryIdempotencyStore();
+      const operation = vi.fn(step('a'));
+      const orchestrator = new TestOrchestrator([{ name: 'a', operation }], {
+        idempotency: { store },
+      });
+
+      await orchestrator.execute({ title: 'first', tags: ['a'] }, { idempotencyKey: 'key-1' });
+      const reordered = await orchestrator.execute(
+        { tags: ['a'], title: 'first' },
+        { idempotencyKey: 'key-1' }
+      );
+      const changed = await orchestrator.execute(
+        { title: 'second', tags: ['a'] },
+        { idempotencyKey: 'key-1' }
+      );
+
+      expect(reordered.replayed).toBe(true);
+      expect(changed.error).toBeInstanceOf(IdempotencyMismatchError);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('leases the key beyond the pipeline timeout', async () => {
+      const store = new MemoryIdempotencyStore();
+      const orchestrator = new TestOrchestrator([{ name: 'a', operation: step('a') }], {
+        idempotency: { store },
+      });
+      const leased = new TestOrchestrator([{ name: 'a', operation: step('a') }], {
+        idempotency: { store, lease: 5000 },
+      });
+
+      await orchestrator.execute(undefined, { idempotencyKey: 'key-1' });
+      await leased.execute(undefined, { idempotencyKey: 'key-2' });
+
+      expect(store.leases).toEqual([61000, 5000]);
+    });
+  });
+
+  describe('durability', () => {
+    it('checkpoints each completed stage and finishes the run', async () => {
+      const store = new MemoryRunStore();
+      const result = await new TestOrchestrator(
+        [
+          {
+            name: 'a',
+            operation: (ctx) => {
+              ctx.results.a = 1;
+              return Promise.resolve(ctx);
+            },
+          },
+          { name: 'b', operation: step('b') },
+        ],
+        { durability: { store } }
+      ).execute(undefined);
+
+      expect(result.runId).toBe('run-1');
+      expect(store.runs.get('run-1')).toMatchObject({
+        status: 'completed',
+        stages: [
+          { name: 'a', state: { results: { a: 1 } } },
+          { name: 'b', state: { results: { a: 1 } } },
+        ],
+      });
+    });
+
+    it('resumes an interrupted run after its last completed stage', async () => {
+      const store = new MemoryRunStore();
+      store.runs.set('run-1', {
+        id: 'run-1',
+        input: undefined,
+        stages: [{ name: 'a', state: { results: { a: 1 }, metadata: {} } }],
+        status: 'running',
+      });
+      const a = vi.fn(step('a'));
+      const compensate = vi.fn(() => Promise.resolve());
+      const orchestrator = new TestOrchestrator(
+        [
+          { name: 'a', operation: a, compensate },
+          {
+            name: 'b',
+            operation: (ctx) =>
+              ctx.results.a === 1
+                ? Promise.reject(new Error('charge declined'))
+                : Promise.resolve(ctx),
+            critical: true,
+          },
+        ],
+        { durability: { store } }
+      );
+
+      const [result] = await orchestrator.recover();
+
+      expect(a).not.toHaveBeenCalled();
+      expect(result?.error?.stage).toBe('b');
+      expect(compensate).toHaveBeenCalledOnce();
+      expect(store.runs.get('run-1')?.status).toBe('failed');
+      expect(await orchestrator.recover()).toEqual([]);
+    });
+
+    it('only resumes runs untouched for longer than the timeout plus a grace period', async () => {
+      const store = new MemoryRunStore();
+
+      await new TestOrchestrator([], { durability: { store } }).recover();
+      await new TestOrchestrator([], { durability: { store, staleAfter: 5000 } }).recover();
+
+      expect(store.staleAfter).toEqual([61000, 5000]);
+    });
+  });
+
+  describe('deferred stages', () => {
+    const pipeline = (notify: PipelineStage<TestContext>['operation']) => [
+      {
+        name: 'save',
+        operation: (ctx: TestContext) => {
+          ctx.results.saved = 'todo-1';
+          return Promise.resolve(ctx);
+        },
+      },
+      { name: 'notify', operation: notify, mode: 'deferred' as const },
+    ];
+
+    it('returns after the inline stages and runs deferred ones from the queue', async () => {
+      const queue = new MemoryJobQueue();
+      const notify = vi.fn((ctx: TestContext) => Promise.resolve(ctx));
+      const result = await new TestOrchestrator(pipeline(notify), { queue }).execute(undefined);
+
+      expect(result.success).toBe(true);
+      expect(result.deferred).toEqual(['notify']);
+      expect(result.stages.map((s) => s.name)).toEqual(['save']);
+      expect(notify).not.toHaveBeenCalled();
+
+      await queue.runAll();
+
+      expect(notify).toHaveBeenCalledWith(
+        expect.objectContaining({ results: { saved: 'todo-1' } }) as unknown
+      );
+    });
+
+    it('fails the job when the deferred stage fails so the queue retries it', async () => {
+      const queue = new MemoryJobQueue();
+      await new TestOrchestrator(
+        pipeline(() => Promise.reject(new Error('smtp down'))),
+        { queue }
+      ).execute(undefined);
+
+      await expect(queue.runAll()).rejects.toThrow('smtp down');
+    });
+
+    it('runs deferred stages inline without a queue', async () => {
+      const notify = vi.fn((ctx: TestContext) => Promise.resolve(ctx));
+      const result = await new TestOrchestrator(pipeline(notify)).execute(undefined);
+
+      expect(result.deferred).toBeUndefined();
+      expect(notify).toHaveBeenCalledOnce();
+    });
+
+    it('rejects inline stages that depend on a deferred stage', async () => {
+      const result = await new TestOrchestrator([
+        { name: 'notify', operation: step('notify'), mode: 'deferred' },
+        { name: 'save', operation: step('save') },
+      ]).execute(undefined);
+
+      expect(result.error?.message).toBe("Stage 'save' cannot depend on deferred stage 'notify'");
+    });
+  });
+
+  describe('transaction groups', () => {
+    const write =
+      (name: string) =>
+      (context: TestContext): Promise<TestContext> => {
+        context.order.push(`${name}:${String(context.tx)}`);
+        return Promise.resolve(context);
+      };
+
+    it('runs consecutive stages of a group in one committed transaction', async () => {
+      const transactions = new MemoryTransactionRunner();
+      const result = await new TestOrchestrator(
+        [
+          { name: 'validate', operation: write('validate') },
+          { name: 'debit', operation: write('debit'), transaction: 'transfer' },
+          { name: 'credit', operation: write('credit'), transaction: 'transfer' },
+          { name: 'notify', operation: write('notify') },
+        ],
+        { transactions }
+      ).execute(undefined);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.order).toEqual([
+        'validate:undefined',
+        'debit:tx-1',
+        'credit:tx-1',
+        'notify:undefined',
+      ]);
+      expect(result.data?.tx).toBeUndefined();
+      expect(transactions.outcomes).toEqual(['commit']);
+    });
+
+    it('rolls back when a critical stage fails and skips compensating the group', async () => {
+      const transactions = new MemoryTransactionRunner();
+      const runs = new MemoryRunStore();
+      const compensated: string[] = [];
+      const result = await new TestOrchestrator(
+        [
+          {
+            name: 'reserve',
+            operation: step('reserve'),
+            compensate: () => (compensated.push('reserve'), Promise.resolve()),
+          },
+          {
+            name: 'debit',
+            operation: step('debit'),
+            transaction: 'transfer',
+            compensate: () => (compensated.push('debit'), Promise.resolve()),
+          },
+          {
+            name: 'credit',
+            operation: () => Promise.reject(new Error('account closed')),
+            transaction: 'transfer',
+            critical: true,
+          },
+        ],
+        { transactions, durability: { store: runs } }
+      ).execute(undefined);
+
+      expect(result.success).toBe(false);
+      expect(transactions.outcomes).toEqual(['rollback']);
+      expect(compensated).toEqual(['reserve']);
+      expect(runs.runs.get('run-1')?.stages.map((stage) => stage.name)).toEqual(['reserve']);
+    });
+
+    it('waits for a group to roll back on timeout before compensating', async () => {
+      const transactions = new MemoryTransactionRunner();
+      const compensated: string[] = [];
+      const result = await new TestOrchestrator(
+        [
+          {
+            name: 'reserve',
+            operation: step('reserve'),
+            compensate: () => (compensated.push('reserve'), Promise.resolve()),
+          },
+          {
+            name: 'debit',
+            operation: step('debit'),
+            transaction: 'transfer',
+            compensate: () => (compensated.push('debit'), Promise.resolve()),
+          },
+          { name: 'credit', operation: step('credit', 200), transaction: 'transfer' },
+        ],
+        { transactions, timeout: 50 }
+      ).execute(undefined);
+
+      expect(result.error).toBeInstanceOf(OrchestratorTimeoutError);
+      expect(transactions.outcomes).toEqual(['rollback']);
+      expect(compensated).toEqual(['reserve']);
+      expect(result.stages.map((s) => [s.name, s.status])).toEqual([
+        ['reserve', 'success'],
+        ['debit', 'success'],
+        ['credit', 'timed_out'],
+      ]);
+    });
+
+    it('fails without a transaction runner', async () => {
+      const result = await new TestOrchestrator([
+        { name: 'debit', operation: step('debit'), transaction: 'transfer' },
+      ]).execute(undefined);
+
+      expect(result.error?.message).toBe(
+        "Transaction 'transfer' requires a transaction runner in the orchestrator config"
+      );
+    });
+
+    it('rejects groups that are split or share a level with other stages', async () => {
+      const split = await new TestOrchestrator([
+        { name: 'debit', operation: step('debit'), transaction: 'transfer' },
+        { name: 'log', operation: step('log') },
+        { name: 'credit', operation: step('credit'), transaction: 'transfer' },
+      ]).execute(undefined);
+      const concurrent = await new TestOrchestrator([
+        { name: 'debit', operation: step('debit'), transaction: 'transfer' },
+        { name: 'log', operation: step('log'), dependsOn: [] },
+      ]).execute(undefined);
+
+      expect(split.error?.message).toBe("Stages of transaction 'transfer' must be consecutive");
+      expect(concurrent.error?.message).toBe(
+        "Transaction 'transfer' cannot run concurrently with stages outside it"
+      );
+    });
+  });
+
+  describe('nested orchestrators', () => {
+    const child = (
+      stages: PipelineStage<TestContext>[],
+      config: Partial<OrchestratorConfig> = {}
+    ) => new TestOrchestrator(stages, { name: 'ChildOrchestrator', ...config });
+
+    it('runs the child with mapped input and output and nests its report', async () => {
+      const seen: string[] = [];
+      const inner = child(
+        [
+          {
+            name: 'inner',
+            operation: (ctx) => {
+              seen.push(ctx.requestId);
+              return Promise.resolve({ ...ctx, left: 'from child' });
+            },
+          },
+        ],
+        { enableMetrics: true }
+      );
+
+      const result = await new TestOrchestrator(
+        [
+          inner.asStage<TestContext>({
+            name: 'nested',
+            input: (ctx) => ctx.requestId,
+            output: (ctx, data) => ({ ...ctx, right: data.left }),
+          }),
+        ],
+        { enableMetrics: true }
+      ).execute(undefined, { requestId: 'parent-request' });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.right).toBe('from child');
+      expect(seen).toEqual(['parent-request']);
+      expect(result.stages[0]?.nested).toMatchObject({
+        orchestrator: 'ChildOrchestrator',
+        success: true,
+        stages: [{ name: 'inner', status: 'success' }],
+      });
+      expect(result.metrics).toHaveProperty(['nested.inner']);
+    });
+
+    it('fails the stage with the child error and its report', async () => {
+      const inner = child([
+        { name: 'inner', operation: () => Promise.reject(new Error('quota')), critical: true },
+      ]);
+
+      const result = await new TestOrchestrator([
+        inner.asStage<TestContext>({ name: 'nested', input: () => undefined, critical: true }),
+      ]).execute(undefined);
+
+      const stageError = result.error?.originalError;
+      expect(result.success).toBe(false);
+      expect(stageError).toBeInstanceOf(NestedOrchestratorError);
+      expect(stageError?.message).toContain("Nested orchestrator 'ChildOrchestrator' failed");
+      expect(result.stages[0]?.nested?.stages[0]).toMatchObject({
+        name: 'inner',
+        status: 'failed',
+      });
+    });
+
+    it('gives the child what is left of the stage timeout', async () => {
+      let budget = Infinity;
+      const inner = child(
+        [
+          {
+            name: 'inner',
+            operation: (ctx) => {
+              budget = (ctx.deadline ?? Infinity) - Date.now();
+              return Promise.resolve(ctx);
+            },
+          },
+        ],
+        { timeout: 5000 }
+      );
+
+      await new TestOrchestrator([
+        inner.asStage<TestContext>({ name: 'nested', input: () => undefined, timeout: 50 }),
+      ]).execute(undefined);
+
+      expect(budget).toBeGreaterThan(0);
+      expect(budget).toBeLessThanOrEqual(50);
+    });
+  });
+
+  describe('run events', () => {
+    it('publishes stage progress and the outcome of the run', async () => {
+      const events = new RunEventStream();
+      await new TestOrchestrator([
+        {
+          name: 'import',
+          operation: (ctx) => {
+            ctx.progress?.('halfway', { done: 50 });
+            return Promise.resolve(ctx);
+          },
+        },
+        { name: 'skip-me', operation: step('skip-me'), when: () => false },
+        { name: 'notify', operation: () => Promise.reject(new Error('smtp down')) },
+      ]).execute(undefined, { events });
+
+      const seen: Array<[string, string | undefined, string | undefined]> = [];
+      events.subscribe((event) => seen.push([event.type, event.stage, event.message]));
+
+      expect(seen).toEqual([
+        ['run_started', undefined, undefined],
+        ['stage_started', 'import', undefined],
+        ['progress', 'import', 'halfway'],
+        ['stage_finished', 'import', undefined],
+        ['stage_skipped', 'skip-me', undefined],
+        ['stage_started', 'notify', undefined],
+        ['stage_failed', 'notify', 'smtp down'],
+        ['run_finished', undefined, undefined],
+      ]);
+      expect(events.finished).toBe(true);
+    });
+
+    it('finishes the stream of a failed run with its error', async () => {
+      const events = new RunEventStream();
+      await new TestOrchestrator([
+        { name: 'save', operation: () => Promise.reject(new Error('db down')), critical: true },
+      ]).execute(undefined, { events });
+
+      let last: unknown;
+      events.subscribe((event) => (last = event));
+
+      expect(last).toMatchObject({ type: 'run_finished', success: false, stage: 'save' });
+    });
+  });
+
+  describe('concurrency limits', () => {
+    const limited = (config: Partial<OrchestratorConfig>, log: string[] = []) => {
+      let running = 0;
+      return new TestOrchestrator(
+        [
+          {
+            name: 'work',
+            operation: async (ctx) => {
+              running++;
+              log.push(`${ctx.requestId}:${running}`);
+              await delay(10);
+              running--;
+              return ctx;
+            },
+          },
+        ],
+        config
+      );
+    };
+
+    it('runs at most maxConcurrency runs at once and admits queued runs in order', async () => {
+      const log: string[] = [];
+      const orchestrator = limited({ maxConcurrency: 2 }, log);
+
+      const results = await Promise.all(
+        ['a', 'b', 'c', 'd'].map((requestId) => orchestrator.execute(undefined, { requestId }))
+      );
+
+      expect(results.every((result) => result.success)).toBe(true);
+      expect(log).toEqual(['a:1', 'b:2', 'c:2', 'd:2']);
+    });
+
+    it('turns runs away once the queue is full', async () => {
+      const orchestrator = limited({ maxConcurrency: 1, maxQueue: 1, timeout: 2500 });
+
+      const [first, second, third] = await Promise.all([
+        orchestrator.execute(undefined),
+        orchestrator.execute(undefined),
+        orchestrator.execute(undefined),
+      ]);
+
+      expect(first?.success).toBe(true);
+      expect(second?.success).toBe(true);
+      expect(third?.error).toBeInstanceOf(OrchestratorOverloadError);
+      expect((third?.error as OrchestratorOverloadError).retryAfter).toBe(3);
+    });
+
+    it('fails queued runs whose caller cancels without starting them', async () => {
+      const log: string[] = [];
+      const orchestrator = limited({ maxConcurrency: 1 }, log);
+      const controller = new AbortController();
+
+      const running = orchestrator.execute(undefined, { requestId: 'first' });
+      const queued = orchestrator.execute(undefined, {
+        requestId: 'queued',
+        signal: controller.signal,
+      });
+      controller.abort(new Error('Client disconnected'));
+
+      expect((await queued).error?.stage).toBe('queue');
+      expect((await running).success).toBe(true);
+      expect(log).toEqual(['first:1']);
+    });
+  });
+
+  describe('request context', () => {
+    it('takes the requestId of the current request', async () => {
+      const orchestrator = new TestOrchestrator([
+        { name: 'work', operation: (ctx) => Promise.resolve(ctx) },
+      ]);
+
+      const inside = await RequestContext.run({ requestId: 'req-1' }, () =>
+        orchestrator.execute(undefined)
+      );
+      const explicit = await RequestContext.run({ requestId: 'req-1' }, () =>
+        orchestrator.execute(undefined, { requestId: 'own' })
+      );
+      const outside = await orchestrator.execute(undefined);
+
+      expect(inside.data?.requestId).toBe('req-1');
+      expect(explicit.data?.requestId).toBe('own');
+      expect(outside.data?.requestId).toBe('test');
+    });
+
+    it('ends the run by the request deadline', async () => {
+      const orchestrator = new TestOrchestrator([
+        {
+          name: 'slow',
+          operation: async (ctx) => {
+            await delay(200);
+            return ctx;
+          },
+        },
+      ]);
+
+      const result = await RequestContext.run(
+        { requestId: 'req-1', deadline: Date.now() + 20 },
+        () => orchestrator.execute(undefined)
+      );
+
+      expect(result.error).toBeInstanceOf(OrchestratorTimeoutError);
+    });
+  });
+
+  describe('logging', () => {
+    const capture = (level: pino.LevelWithSilent = 'info') => {
+      const lines: Array<Record<string, unknown>> = [];
+      const logger = pino(
+        { level },
+        { write: (line: string) => lines.push(JSON.parse(line) as Record<string, unknown>) }
+      );
+      return { logger, lines };
+    };
+
+    it('logs the pipeline outcome and stage failures bound to the requestId', async () => {
+      const { logger, lines } = capture();
+      const orchestrator = new TestOrchestrator(
+        [
+          { name: 'ok', operation: (ctx) => Promise.resolve(ctx) },
+          { name: 'broken', critical: true, operation: () => Promise.reject(new Error('boom')) },
+        ],
+        { logErrors: true, logging: { logger } }
+      );
+
+      await orchestrator.execute(undefined, { requestId: 'req-1' });
+
+      expect(lines.map((line) => line.event)).toEqual(['stage_failed', 'pipeline_failed']);
+      expect(lines[0]).toMatchObject({ module: 'TestOrchestrator', requestId: 'req-1' });
+      expect(lines[0]).toMatchObject({ stage: 'broken', critical: true, level: 40 });
+      expect(lines[1]).toMatchObject({ stage: 'broken', level: 50 });
+    });
+
+    it('honours the configured level and masks sensitive fields', async () => {
+      const { logger, lines } = capture('trace');
+      const orchestrator = new TestOrchestrator(
+        [{ name: 'work', operation: (ctx) => Promise.resolve(ctx) }],
+        { logging: { logger, level: 'debug', redact: ['pin'] } }
+      );
+
+      await orchestrator.execute({ user: { name: 'ann', PIN: '1234' } });
+
+      expect(lines.map((line) => line.event)).toEqual([
+        'pipeline_started',
+        'stage_finished',
+        'pipeline_finished',
+      ]);
+      expect(lines[0]?.input).toEqual({ user: { name: 'ann', PIN: '[Redacted]' } });
+
+      lines.length = 0;
+      const quiet = new TestOrchestrator(
+        [{ name: 'work', operation: (ctx) => Promise.resolve(ctx) }],
+        {
+          logging: { logger, level: 'warn' },
+        }
+      );
+      await quiet.execute(undefined);
+      expect(lines).toEqual([]);
+    });
+  });
+
+  describe('schemas', () => {
+    const input = Type.Object({ name: Type.String({ minLength: 1 }), age: Type.Integer() });
+
+    it('rejects input that breaks the schema before any stage runs', async () => {
+      const operation = vi.fn((ctx: TestContext) => Promise.resolve(ctx));
+      const orchestrator = new TestOrchestrator([{ name: 'work', operation }], { input });
+
+      const result = await orchestrator.execute({ name: '', age: 'ten' });
+
+      expect(result.error).toBeInstanceOf(OrchestratorValidationError);
+      expect(result.error?.stage).toBe('input');
+      expect((result.error as OrchestratorValidationError).issues).toEqual([
+        { path: '/name', message: expect.any(String) as string },
+        { path: '/age', message: expect.any(String) as string },
+      ]);
+      expect(operation).not.toHaveBeenCalled();
+    });
+
+    it('fails and compensates a run whose result breaks the output schema', async () => {
+      const compensate = vi.fn(() => Promise.resolve());
+      const orchestrator = new TestOrchestrator(
+        [{ name: 'work', operation: (ctx) => Promise.resolve(ctx), compensate }],
+        { input, output: Type.Object({ order: Type.Array(Type.String(), { minItems: 1 }) }) }
+      );
+
+      const result = await orchestrator.execute({ name: 'ann', age: 30 });
+
+      expect(result.error).toBeInstanceOf(OrchestratorValidationError);
+      expect(result.error?.stage).toBe('output');
+      expect(compensate).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('executeMany', () => {
+    const batch = (failOn: number[], log: string[] = []) => {
+      let running = 0;
+      return new TestOrchestrator([
+        {
+          name: 'work',
+          critical: true,
+          operation: async (ctx) => {
+            const index = ctx.batch?.index ?? -1;
+            running++;
+            log.push(`${index}:${running}`);
+            await delay(5);
+            running--;
+            if (failOn.includes(index)) {
+              throw new Error(`item ${index} failed`);
+            }
+            ctx.batch?.cache.set(`item-${index}`, true);
+            return ctx;
+          },
+        },
+      ]);
+    };
+
+    it('runs items with bounded concurrency and reports each in input order', async () => {
+      const log: string[] = [];
+      const { results, summary } = await batch([1], log).executeMany([1, 2, 3, 4, 5], {
+        concurrency: 2,
+      });
+
+      expect(results.map((result) => result.success)).toEqual([true, false, true, true, true]);
+      expect(Math.max(...log.map((entry) => Number(entry.split(':')[1])))).toBe(2);
+      expect(summary).toMatchObject({ total: 5, succeeded: 4, failed: 1, skipped: 0 });
+      expect(results[4]?.data?.batch?.cache.size).toBe(4);
+    });
+
+    it('skips the items not started yet once one fails with stopOnError', async () => {
+      const { results, summary } = await batch([0]).executeMany([1, 2, 3], {
+        concurrency: 1,
+        stopOnError: true,
+      });
+
+      expect(results.map((result) => result.error?.stage)).toEqual(['work', 'batch', 'batch']);
+      expect(summary).toMatchObject({ total: 3, succeeded: 0, failed: 1, skipped: 2 });
+    });
+  });
+
+  describe('circuit breakers and fallbacks', () => {
+    it('opens after consecutive failures and fails fast until a probe succeeds', async () => {
+      let healthy = false;
+      const operation = vi.fn((context: TestContext) =>
+        healthy ? Promise.resolve(context) : Promise.reject(new Error('upstream down'))
+      );
+      const orchestrator = new TestOrchestrator([
+        {
+          name: 'upstream',
+          operation,
+          critical: true,
+          circuitBreaker: { failureThreshold: 2, openDuration: 20 },
+        },
+      ]);
+
+      await orchestrator.execute(undefined);
+      await orchestrator.execute(undefined);
+      const rejected = await orchestrator.execute(undefined);
+
+      expect(operation).toHaveBeenCalledTimes(2);
+      expect(rejected.error?.originalError).toBeInstanceOf(CircuitOpenError);
+      expect(orchestrator.circuitBreakers()).toMatchObject([{ stage: 'upstream', state: 'open' }]);
+
+      await delay(25);
+      healthy = true;
+      const probe = await orchestrator.execute(undefined);
+
+      expect(probe.success).toBe(true);
+      expect(operation).toHaveBeenCalledTimes(3);
+      expect(orchestrator.circuitBreakers()).toMatchObject([
+        { stage: 'upstream', state: 'closed' },
+      ]);
+    });
+
+    it('reopens when a half-open probe fails', async () => {
+      const orchestrator = new TestOrchestrator([
+        {
+          name: 'upstream',
+          operation: () => Promise.reject(new Error('upstream down')),
+          circuitBreaker: { failureThreshold: 1, openDuration: 10 },
+        },
+      ]);
+
+      await orchestrator.execute(undefined);
+      await delay(15);
+      await orchestrator.execute(undefined);
+
+      expect(orchestrator.circuitBreakers()[0]?.state).toBe('open');
+      expect(orchestrator.circuitBreakers()[0]?.retryIn).toBeGreaterThan(0);
+    });
+
+    it('continues with the fallback context when a stage finally fails', async () => {
+      const result = await new TestOrchestrator([
+        {
+          name: 'price',
+          critical: true,
+          operation: () => Promise.reject(new Error('pricing down')),
+          retry: { maxAttempts: 2, initialDelay: 1 },
+          fallback: (context) => Promise.resolve({ ...context, left: 'cached price' }),
+        },
+        { name: 'next', operation: step('next') },
+      ]).execute(undefined);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.left).toBe('cached price');
+      expect(result.data?.order).toEqual(['next:start', 'next:end']);
+      expect(result.data?.errors.map((error) => error.message)).toEqual(['pricing down']);
+      expect(result.stages[0]).toMatchObject({ name: 'price', status: 'fallback', attempts: 2 });
+    });
+
+    it('serves the fallback while the breaker is open', async () => {
+      const operation = vi.fn(() => Promise.reject(new Error('upstream down')));
+      const orchestrator = new TestOrchestrator([
+        {
+          name: 'upstream',
+          critical: true,
+          operation,
+          circuitBreaker: { failureThreshold: 1 },
+          fallback: (context, error) => Promise.resolve({ ...context, left: error.name }),
+        },
+      ]);
+
+      await orchestrator.execute(undefined);
+      const result = await orchestrator.execute(undefined);
+
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(result.success).toBe(true);
+      expect(result.data?.left).toBe('CircuitOpenError');
+    });
+
+    it('fails with the stage error when the fallback fails too', async () => {
+      const result = await new TestOrchestrator([
+        {
+          name: 'price',
+          critical: true,
+          operation: () => Promise.reject(new Error('pricing down')),
+          fallback: () => Promise.reject(new Error('cache down')),
+        },
+      ]).execute(undefined);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.originalError?.message).toBe('pricing down');
+      expect(result.stages[0]?.status).toBe('failed');
+    });
+  });
+
+  describe('fault injection', () => {
+    let reset = () => undefined as void;
+    const inject = (...rules: FaultRule[]) => {
+      reset = FaultInjection.configure({ enabled: true, rules });
+    };
+
+    afterEach(() => reset());
+
+    it('fails matching stages and marks the report as injected', async () => {
+      inject({ orchestrator: 'TestOrchestrator', stage: 'charge', fault: 'error', probability: 1 });
+
+      const result = await new TestOrchestrator([
+        { name: 'load', operation: step('load') },
+        { name: 'charge', operation: step('charge'), critical: true },
+      ]).execute(undefined);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.originalError).toBeInstanceOf(InjectedFaultError);
+      expect(result.stages.map((stage) => stage.injected)).toEqual([undefined, ['error']]);
+    });
+
+    it('only hits stages targeted by the request when probability is 0', async () => {
+      inject({ orchestrator: '*', stage: 'charge', fault: 'latency', latency: 30 });
+      const orchestrator = new TestOrchestrator([{ name: 'charge', operation: step('charge') }]);
+
+      const untouched = await orchestrator.execute(undefined);
+      const targeted = await RequestContext.run(
+        { requestId: 'req-1', faults: ['TestOrchestrator/charge'] },
+        () => orchestrator.execute(undefined)
+      );
+
+      expect(untouched.stages[0]?.injected).toBeUndefined();
+      expect(targeted.success).toBe(true);
+      expect(targeted.stages[0]?.injected).toEqual(['latency']);
+      expect(targeted.stages[0]?.duration).toBeGreaterThanOrEqual(25);
+    });
+
+    it('holds the stage until its timeout fires', async () => {
+      inject({ orchestrator: 'TestOrchestrator', stage: '*', fault: 'timeout', probability: 1 });
+
+      const result = await new TestOrchestrator([
+        { name: 'charge', operation: step('charge'), critical: true, timeout: 20 },
+      ]).execute(undefined);
+
+      expect(result.success).toBe(false);
+      expect(result.stages[0]).toMatchObject({ status: 'timed_out', injected: ['timeout'] });
+    });
+
+    it('fails a timeout fault at once without a signal to wait for', async () => {
+      const timeout: FaultRule = { orchestrator: '*', stage: '*', fault: 'timeout' };
+      const aborted = new AbortController();
+      aborted.abort(new Error('cancelled'));
+      const addListener = vi.spyOn(aborted.signal, 'addEventListener');
+
+      await expect(FaultInjection.apply([timeout], 'charge')).rejects.toBeInstanceOf(
+        InjectedFaultError
+      );
+      await expect(FaultInjection.apply([timeout], 'charge', aborted.signal)).rejects.toThrow(
+        'cancelled'
+      );
+      expect(addListener).not.toHaveBeenCalled();
+    });
+
+    it('never opens the circuit breaker of the stage', async () => {
+      inject({ orchestrator: 'TestOrchestrator', stage: 'a', fault: 'error', probability: 1 });
+      const orchestrator = new TestOrchestrator([
+        {
+          name: 'a',
+          operation: step('a'),
+          critical: true,
+          circuitBreaker: { failureThreshold: 2 },
+        },
+      ]);
+
+      await orchestrator.execute(undefined);
+      await orchestrator.execute(undefined);
+      reset();
+      const result = await orchestrator.execute(undefined);
+
+      expect(result.success).toBe(true);
+      expect(orchestrator.circuitBreakers()[0]?.state).toBe('closed');
+    });
+
+    it('labels the error and outcome metrics as injected', async () => {
+      inject({
+        orchestrator: 'InjectedMetricsOrchestrator',
+        stage: 'a',
+        fault: 'error',
+        probability: 1,
+      });
+
+      await new TestOrchestrator([{ name: 'a', operation: step('a'), critical: true }], {
+        name: 'InjectedMetricsOrchestrator',
+        enableMetrics: true,
+      }).execute(undefined);
+
+      const { values } = await OrchestratorMetrics.stageOutcomes.get();
+      expect(
+        values.filter((entry) => entry.labels.service === 'InjectedMetricsOrchestrator')
+      ).toEqual([
+        expect.objectContaining({
+          labels: {
+            service: 'InjectedMetricsOrchestrator',
+            stage: 'a',
+            outcome: 'failed',
+            injected: 'true',
+          },
+          value: 1,
+        }),
+      ]);
+    });
+
+    it('does nothing while disabled', async () => {
+      reset = FaultInjection.configure({
+        enabled: false,
+        rules: [{ orchestrator: '*', stage: '*', fault: 'error', probability: 1 }],
+      });
+
+      const result = await new TestOrchestrator([
+        { name: 'charge', operation: step('charge'), critical: true },
+      ]).execute(undefined);
+
+      expect(result.success).toBe(true);
+    });
+
+    it('rejects invalid rules', () => {
+      expect(() => FaultInjection.parse('[{"orchestrator":"*","fault":"crash"}]')).toThrow(
+        /Invalid fault rules/
+      );
+    });
+  });
+});
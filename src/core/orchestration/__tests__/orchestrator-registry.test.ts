@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { BaseOrchestrator, OrchestratorRegistry } from '@core/orchestration/index.js';
+import type { OperationContext, PipelineStage } from '@core/orchestration/index.js';
+
+class RegisteredOrchestrator extends BaseOrchestrator<OperationContext, string> {
+  constructor(name: string) {
+    super({ name, timeout: 500, logErrors: false });
+  }
+
+  protected initializeContext(): Promise<OperationContext> {
+    return Promise.resolve({
+      requestId: 'registry-test',
+      startTime: Date.now(),
+      results: {},
+      errors: [],
+      metadata: {},
+    });
+  }
+
+  protected getPipeline(): PipelineStage<OperationContext>[] {
+    return [
+      { name: 'load', operation: (ctx) => Promise.resolve(ctx), critical: true, timeout: 100 },
+      {
+        name: 'notify',
+        operation: () => Promise.reject(new Error('smtp down')),
+        retry: { maxAttempts: 2, initialDelay: 1 },
+        when: () => true,
+      },
+    ];
+  }
+
+  protected buildResult(): string {
+    return 'done';
+  }
+}
+
+describe('OrchestratorRegistry', () => {
+  it('describes orchestrators as they are constructed', () => {
+    new RegisteredOrchestrator('RegistryDescribeOrchestrator');
+
+    expect(OrchestratorRegistry.get('RegistryDescribeOrchestrator')).toEqual({
+      name: 'RegistryDescribeOrchestrator',
+      timeout: 500,
+      enableMetrics: true,
+      logErrors: false,
+      idempotent: false,
+      durable: false,
+      queued: false,
+      transactional: false,
+      stages: [
+        {
+          name: 'load',
+          critical: true,
+          timeout: 100,
+          mode: 'inline',
+          maxAttempts: 1,
+          conditional: false,
+          compensated: false,
+          fallback: false,
+          circuitBreaker: false,
+        },
+        {
+          name: 'notify',
+          critical: false,
+          mode: 'inline',
+          maxAttempts: 2,
+          conditional: true,
+          compensated: false,
+          fallback: false,
+          circuitBreaker: false,
+        },
+      ],
+    });
+    expect(OrchestratorRegistry.list().map((info) => info.name)).toContain(
+      'RegistryDescribeOrchestrator'
+    );
+  });
+
+  it('reports live stats from the orchestrator metrics', async () => {
+    const orchestrator = new RegisteredOrchestrator('RegistryStatsOrchestrator');
+    await orchestrator.execute(undefined);
+    await orchestrator.execute(undefined);
+
+    const stats = await OrchestratorRegistry.getStats('RegistryStatsOrchestrator');
+
+    expect(stats.activeOperations).toBe(0);
+    expect(stats.runs).toEqual({ success: 2, error: 0 });
+    expect(stats.averageDuration).toBeGreaterThanOrEqual(0);
+    expect(stats.stages.load?.outcomes).toEqual({ success: 2 });
+    expect(stats.stages.load?.averageLatency).toBeGreaterThanOrEqual(0);
+    expect(stats.stages.notify).toEqual({ averageLatency: null, outcomes: { failed: 2 } });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { BaseOrchestrator } from '@core/orchestration/index.js';
+import type { OperationContext, PipelineStage } from '@core/orchestration/index.js';
+
+const exporter = new InMemorySpanExporter();
+
+class TracedOrchestrator extends BaseOrchestrator<OperationContext, string> {
+  constructor(
+    private stages: PipelineStage<OperationContext>[],
+    name = 'TracedOrchestrator'
+  ) {
+    super({ name, enableMetrics: false, logErrors: false });
+  }
+
+  protected initializeContext(): Promise<OperationContext> {
+    return Promise.resolve({
+      requestId: 'trace-test',
+      startTime: Date.now(),
+      results: {},
+      errors: [],
+      metadata: {},
+    });
+  }
+
+  protected getPipeline(): PipelineStage<OperationContext>[] {
+    return this.stages;
+  }
+
+  protected buildResult(): string {
+    return 'done';
+  }
+}
+
+describe('Orchestrator tracing', () => {
+  beforeAll(() => {
+    const provider = new NodeTracerProvider();
+    provider.addSpanProcessor(new SimpleSpanProcessor(exporter));
+    provider.register();
+  });
+
+  afterEach(() => exporter.reset());
+
+  it('creates a span per orchestrator run with a child span per stage', async () => {
+    await new TracedOrchestrator([
+      { name: 'load', operation: (ctx) => Promise.resolve(ctx) },
+      { name: 'skip-me', operation: (ctx) => Promise.resolve(ctx), when: () => false },
+      { name: 'notify', operation: () => Promise.reject(new Error('smtp down')) },
+    ]).execute(undefined);
+
+    const spans = exporter.getFinishedSpans();
+    const root = spans.find((span) => span.name === 'orchestrator TracedOrchestrator');
+    const stages = spans.filter((span) => span.name.startsWith('stage '));
+
+    expect(root?.attributes['orchestrator.request_id']).toBe('trace-test');
+    expect(root?.attributes['orchestrator.success']).toBe(true);
+    expect(stages.map((span) => span.parentSpanId)).toEqual(
+      stages.map(() => root?.spanContext().spanId)
+    );
+    expect(stages.map((span) => [span.name, span.attributes['orchestrator.stage.status']])).toEqual(
+      [
+        ['stage load', 'success'],
+        ['stage skip-me', 'skipped'],
+        ['stage notify', 'failed'],
+      ]
+    );
+    expect(stages[2]?.events[0]?.attributes?.['exception.message']).toBe('smtp down');
+  });
+
+  it('marks the orchestrator span as failed with the failing stage', async () => {
+    await new TracedOrchestrator([
+      { name: 'write', operation: () => Promise.reject(new Error('db down')), critical: true },
+    ]).execute(undefined);
+
+    const root = exporter
+      .getFinishedSpans()
+      .find((span) => span.name === 'orchestrator TracedOrchestrator');
+
+    expect(root?.attributes['orchestrator.success']).toBe(false);
+    expect(root?.attributes['orchestrator.error.stage']).toBe('write');
+    expect(root?.status.message).toContain('db down');
+  });
+
+  it('nests the span of a child orchestrator under its stage', async () => {
+    const child = new TracedOrchestrator(
+      [{ name: 'inner', operation: (ctx) => Promise.resolve(ctx) }],
+      'ChildOrchestrator'
+    );
+    await new TracedOrchestrator([
+      child.asStage<OperationContext>({ name: 'nested', input: () => undefined }),
+    ]).execute(undefined);
+
+    const spans = exporter.getFinishedSpans();
+    const stage = spans.find((span) => span.name === 'stage nested');
+    const childRoot = spans.find((span) => span.name === 'orchestrator ChildOrchestrator');
+
+    expect(childRoot?.parentSpanId).toBe(stage?.spanContext().spanId);
+    expect(childRoot?.attributes['orchestrator.request_id']).toBe('trace-test');
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { DefaultPerformanceTracker } from '@core/orchestration/index.js';
+
+describe('DefaultPerformanceTracker', () => {
+  it('keeps every sample per name while metrics report the latest', () => {
+    const tracker = new DefaultPerformanceTracker();
+    tracker.track('save', 4);
+    tracker.track('save', 0.25);
+    tracker.track('save', 2);
+    tracker.recordAttempts('save', 3);
+
+    expect(tracker.getSamples()).toEqual({
+      save: { count: 3, total: 6.25, min: 0.25, max: 4, last: 2 },
+    });
+    expect(tracker.getMetrics()).toEqual({ save: 2, save_attempts: 3 });
+  });
+
+  it('times sub-operations with sub-millisecond precision', async () => {
+    const tracker = new DefaultPerformanceTracker();
+
+    await expect(tracker.time('db-query', () => 'rows')).resolves.toBe('rows');
+    await expect(
+      tracker.time('db-query', () => Promise.reject(new Error('timeout')))
+    ).rejects.toThrow('timeout');
+
+    const samples = tracker.getSamples();
+    expect(samples['db-query']?.count).toBe(1);
+    expect(samples['db-query']?.total).toBeGreaterThan(0);
+    expect(samples['db-query']?.total).not.toBe(Math.round(samples['db-query']?.total ?? 0));
+    expect(samples['db-query_error']?.count).toBe(1);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  PipelineCatalog,
+  PipelineConfigError,
+  PipelineConfigLoader,
+} from '@core/orchestration/index.js';
+import type { OperationContext } from '@core/orchestration/index.js';
+
+const load = (ctx: OperationContext) => Promise.resolve(ctx);
+const isTransient = () => true;
+
+const catalog = new PipelineCatalog<OperationContext>()
+  .operation('load', load)
+  .operation('save', load)
+  .condition('always', () => true)
+  .retryPredicate('isTransient', isTransient);
+
+const config = {
+  stages: [
+    { name: 'load', operation: 'load', timeout: 100 },
+    {
+      name: 'save',
+      operation: 'save',
+      when: 'always',
+      critical: true,
+      retry: { maxAttempts: 3, retryOn: 'isTransient' },
+    },
+  ],
+  environments: { staging: { stages: { save: { timeout: 5000 } } } },
+};
+
+describe('PipelineConfigLoader', () => {
+  it('resolves stages against the catalog', () => {
+    const [first, second] = PipelineConfigLoader.parse(config, catalog, 'test');
+
+    expect(first).toEqual({ name: 'load', operation: load, timeout: 100 });
+    expect(second?.operation).toBe(load);
+    expect(second?.critical).toBe(true);
+    expect(second?.timeout).toBeUndefined();
+    expect(second?.retry).toEqual({ maxAttempts: 3, retryOn: isTransient });
+  });
+
+  it('applies the overrides of the current environment', () => {
+    const stages = PipelineConfigLoader.parse(config, catalog, 'staging');
+
+    expect(stages[1]?.timeout).toBe(5000);
+    expect(stages[1]?.critical).toBe(true);
+  });
+
+  it('reports every unknown name', () => {
+    const invalid = {
+      stages: [
+        { name: 'load', operation: 'fetch', when: 'sometimes' },
+        { name: 'save', operation: 'save', compensate: 'undoSave', fallback: 'cachedSave' },
+      ],
+    };
+
+    let error: unknown;
+    try {
+      PipelineConfigLoader.parse(invalid, catalog, 'test', 'inline.yaml');
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(PipelineConfigError);
+    expect((error as PipelineConfigError).source).toBe('inline.yaml');
+    expect((error as PipelineConfigError).issues).toEqual([
+      "stage 'load' references unknown operation 'fetch'",
+      "stage 'load' references unknown condition 'sometimes'",
+      "stage 'save' references unknown compensation 'undoSave'",
+      "stage 'save' references unknown fallback 'cachedSave'",
+    ]);
+  });
+
+  it('rejects files that do not match the schema', () => {
+    const invalid = { stages: [{ name: 'load', operation: 'load', timeout: 'fast' }] };
+
+    expect(() => PipelineConfigLoader.parse(invalid, catalog, 'test')).toThrow(PipelineConfigError);
+    expect(() =>
+      PipelineConfigLoader.parse(
+        { ...config, environments: { test: { stages: { publish: { timeout: 1 } } } } },
+        catalog,
+        'test'
+      )
+    ).toThrow("environment 'test' overrides unknown stage 'publish'");
+  });
+
+  it('loads YAML and JSON files', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pipeline-'));
+    try {
+      writeFileSync(join(dir, 'pipeline.json'), JSON.stringify(config));
+      writeFileSync(
+        join(dir, 'pipeline.yaml'),
+        ['stages:', '  - name: load', '    operation: load', '    timeout: 100'].join('\n')
+      );
+
+      expect(PipelineConfigLoader.load(join(dir, 'pipeline.json'), catalog, 'test')).toHaveLength(
+        2
+      );
+      expect(PipelineConfigLoader.load(join(dir, 'pipeline.yaml'), catalog, 'test')).toEqual([
+        { name: 'load', operation: load, timeout: 100 },
+      ]);
+      expect(() => PipelineConfigLoader.load(join(dir, 'missing.yaml'), catalog)).toThrow(
+        PipelineConfigError
+      );
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RunEventHub, RunEventStream } from '@core/orchestration/index.js';
+import type { RunEvent } from '@core/orchestration/index.js';
+
+describe('RunEventStream', () => {
+  it('replays buffered events to late subscribers, then follows live ones', () => {
+    const stream = new RunEventStream();
+    stream.emit({ type: 'run_started' });
+    stream.emit({ type: 'stage_started', stage: 'save' });
+
+    const seen: RunEvent[] = [];
+    stream.subscribe((event) => seen.push(event), 1);
+    stream.emit({ type: 'run_finished', success: true });
+    stream.emit({ type: 'progress', message: 'too late' });
+
+    expect(seen.map((event) => [event.id, event.type])).toEqual([
+      [2, 'stage_started'],
+      [3, 'run_finished'],
+    ]);
+    expect(stream.finished).toBe(true);
+  });
+
+  it('keeps at most maxEvents events', () => {
+    const stream = new RunEventStream(undefined, 2);
+    stream.emit({ type: 'progress', message: 'one' });
+    stream.emit({ type: 'progress', message: 'two' });
+    stream.emit({ type: 'progress', message: 'three' });
+
+    const seen: Array<string | undefined> = [];
+    stream.subscribe((event) => seen.push(event.message));
+
+    expect(seen).toEqual(['two', 'three']);
+  });
+});
+
+describe('RunEventHub', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('drops finished streams after the retention period', () => {
+    vi.useFakeTimers();
+    const hub = new RunEventHub(1000);
+    const { id, stream } = hub.open('user-1');
+
+    stream.emit({ type: 'run_finished', success: true });
+    vi.advanceTimersByTime(999);
+    expect(hub.get(id)?.owner).toBe('user-1');
+
+    vi.advanceTimersByTime(1);
+    expect(hub.get(id)).toBeUndefined();
+  });
+
+  it('gives every run its own stream id', () => {
+    const hub = new RunEventHub();
+    const first = hub.open('user-1');
+    const second = hub.open('user-2');
+
+    expect(second.id).not.toBe(first.id);
+    expect(hub.get(first.id)).toBe(first.stream);
+    expect(hub.get(second.id)).toBe(second.stream);
+  });
+});
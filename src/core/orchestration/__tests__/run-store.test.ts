@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import type { PrismaClient } from '@prisma/client';
+import { PrismaRunStore } from '@core/orchestration/index.js';
+
+interface RunRow {
+  id: string;
+  orchestrator: string;
+  status: string;
+  input: unknown;
+  updatedAt: Date;
+  stages: Array<{ stage: string; state: unknown; completedAt: Date }>;
+}
+
+/**
+ * The part of the Prisma client the run store uses, kept in memory.
+ * Deleting a run removes its checkpoints, like the cascading relation.
+ */
+function memoryPrisma() {
+  const runs = new Map<string, RunRow>();
+  let nextId = 1;
+
+  const orchestratorRun = {
+    create: ({ data }: { data: Omit<RunRow, 'id' | 'updatedAt' | 'stages'> }) => {
+      const run = { ...data, id: `run-${nextId++}`, updatedAt: new Date(0), stages: [] };
+      runs.set(run.id, run);
+      return Promise.resolve({ id: run.id });
+    },
+    update: ({
+      where,
+      data,
+    }: {
+      where: { id: string };
+      data: { stages: { create: { stage: string; state: unknown } } };
+    }) => {
+      const run = runs.get(where.id);
+      if (!run) {
+        return Promise.reject(new Error('Record to update not found'));
+      }
+      run.stages.push({ ...data.stages.create, completedAt: new Date() });
+      return Promise.resolve(run);
+    },
+    delete: ({ where }: { where: { id: string } }) => {
+      const run = runs.get(where.id);
+      runs.delete(where.id);
+      return run ? Promise.resolve(run) : Promise.reject(new Error('Record to delete not found'));
+    },
+    findMany: () => Promise.resolve([...runs.values()].filter((run) => run.status === 'running')),
+    updateMany: () => Promise.resolve({ count: 1 }),
+  };
+
+  return { runs, prisma: { orchestratorRun } as unknown as PrismaClient };
+}
+
+describe('PrismaRunStore', () => {
+  it('deletes a run and its checkpoints once it finishes', async () => {
+    const { runs, prisma } = memoryPrisma();
+    const store = new PrismaRunStore(prisma);
+
+    const completed = await store.start('OrderOrchestrator', { id: 1 });
+    await store.checkpoint(completed, 'load', { loaded: true });
+    await store.finish(completed, 'completed');
+    const failed = await store.start('OrderOrchestrator', { id: 2 });
+    await store.finish(failed, 'failed');
+
+    expect(runs.size).toBe(0);
+    expect(await store.claimStale('OrderOrchestrator', 0)).toEqual([]);
+  });
+
+  it('keeps unfinished runs for recovery', async () => {
+    const { prisma } = memoryPrisma();
+    const store = new PrismaRunStore(prisma);
+
+    const runId = await store.start('OrderOrchestrator', { id: 1 });
+    await store.checkpoint(runId, 'load', { loaded: true });
+
+    expect(await store.claimStale('OrderOrchestrator', 0)).toEqual([
+      { id: runId, input: { id: 1 }, stages: [{ name: 'load', state: { loaded: true } }] },
+    ]);
+  });
+});
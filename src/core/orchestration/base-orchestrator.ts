@@ -1,13 +1,140 @@
+import { createHash } from 'node:crypto';
+import { trace } from '@opentelemetry/api';
+import { TypeCompiler } from '@sinclair/typebox/compiler';
+import type { TypeCheck } from '@sinclair/typebox/compiler';
+import type { TSchema } from '@sinclair/typebox';
+import type { Logger } from 'pino';
+import {
+  CircuitOpenError,
+  IdempotencyConflictError,
+  IdempotencyMismatchError,
+  NestedOrchestratorError,
+  OrchestratorError,
+  OrchestratorOverloadError,
+  OrchestratorTimeoutError,
+  OrchestratorValidationError,
+} from './types.js';
 import type {
+  BatchOptions,
+  BatchResult,
+  CircuitBreakerInfo,
+  CircuitState,
+  CompensationReport,
+  DeferredStageJob,
+  DurabilityConfig,
+  ExecuteOptions,
+  FaultKind,
+  FaultRule,
+  IdempotencyConfig,
+  NestedRunReport,
+  NestedStageOptions,
   OperationContext,
   OrchestratorConfig,
+  OrchestratorInfo,
+  OrchestratorMiddleware,
   OrchestratorResult,
-  OrchestratorError,
+  PipelineOperation,
   PipelineStage,
+  RunEvent,
+  RunEventSink,
+  StageFallback,
+  StageOutcome,
+  StageReport,
+  StoredRun,
+  TransactionRunner,
 } from './types.js';
-import { PerformanceInterceptor } from './performance-interceptor.js';
 import { DefaultPerformanceTracker, NullPerformanceTracker } from './performance-tracker.js';
 import { OrchestratorMetrics } from './orchestrator-metrics.js';
+import { PipelineGraph } from './pipeline-graph.js';
+import { StageRetry } from './retry-policy.js';
+import { Cancellation } from './cancellation.js';
+import { OrchestratorTracing } from './orchestrator-tracing.js';
+import { OrchestratorLogging } from './orchestrator-logging.js';
+import { performanceMiddleware } from './performance-middleware.js';
+import { OrchestratorRegistry } from './orchestrator-registry.js';
+import { NestedOrchestration } from './nested-orchestration.js';
+import { Bulkhead } from './bulkhead.js';
+import { CircuitBreaker } from './circuit-breaker.js';
+import { FaultInjection } from './fault-injection.js';
+import type { JobQueue } from '@core/queue/index.js';
+import { RequestContext } from '@core/context/index.js';
+
+/**
+ * State of a single `execute` call, shared by every stage it runs
+ */
+interface PipelineRun<TContext extends OperationContext> {
+  /** Stages that finished successfully, in completion order, with their output */
+  completed: Array<{ stage: PipelineStage<TContext>; context: TContext }>;
+  /** Aborted on pipeline timeout or when the caller's signal aborts */
+  controller: AbortController;
+  /** Stages whose `when` condition was false */
+  skipped: string[];
+  /** When `execute` started, as `performance.now()` */
+  startTime: number;
+  /** Pipeline timeout of this run */
+  timeout: number;
+  /** Epoch ms at which the pipeline times out */
+  deadline: number;
+  /** Stages currently running, with their start time */
+  active: Map<string, number>;
+  /** Finished and skipped stages */
+  reports: StageReport[];
+  /** Journal id of a durable run */
+  runId?: string;
+  /** Transaction group currently open */
+  transaction?: string;
+  /** Settles once the last transaction group has committed or rolled back */
+  transactionSettled?: Promise<void>;
+  /** Subscribers to the run's progress */
+  events?: RunEventSink;
+  /** Bound to the run's requestId and runId once they are known */
+  logger: Logger;
+  /** Faults injected into each stage, see FaultInjection */
+  injected: Map<string, FaultKind[]>;
+}
+
+/**
+ * What a single `executePipeline` call should do besides running the pipeline
+ */
+interface RunPlan {
+  /** Restore a crashed durable run and run only its remaining stages */
+  resumeFrom?: StoredRun;
+  /** Run one deferred stage from the job queue */
+  deferredJob?: DeferredStageJob;
+}
+
+/** Value of the circuit state gauge per state */
+const CIRCUIT_GAUGE: Record<CircuitState, number> = { closed: 0, half_open: 1, open: 2 };
+
+/** Extra lease time for compensating a run and recording its result, in ms */
+const IDEMPOTENCY_LEASE_MARGIN = 60 * 1000;
+
+/** Extra time a durable run may go untouched while it compensates and finishes, in ms */
+const STALE_RUN_MARGIN = 60 * 1000;
+
+/**
+ * JSON with object keys sorted, so equal values always serialise the same
+ */
+function stableStringify(value: unknown): string {
+  const json = JSON.stringify(value, (_key, entry: unknown) =>
+    entry && typeof entry === 'object' && !Array.isArray(entry)
+      ? Object.fromEntries(
+          Object.entries(entry as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b))
+        )
+      : entry
+  );
+  // undefined has no JSON form
+  return json ?? '';
+}
+
+/**
+ * Transaction group of a level. Levels never mix groups, see PipelineGraph.
+ */
+function transactionOf<TContext extends OperationContext>(
+  level: PipelineStage<TContext>[] | undefined
+): string | undefined {
+  return level?.find((stage) => stage.transaction)?.transaction;
+}
 
 /**
  * Abstract base class for all orchestrators following the golden pattern
@@ -17,7 +144,35 @@ export abstract class BaseOrchestrator<
   TResult,
   TInput = unknown,
 > {
-  protected config: Required<OrchestratorConfig>;
+  private static globalMiddleware: OrchestratorMiddleware[] = [];
+
+  protected config: Required<
+    Omit<
+      OrchestratorConfig,
+      | 'logging'
+      | 'input'
+      | 'output'
+      | 'idempotency'
+      | 'durability'
+      | 'queue'
+      | 'transactions'
+      | 'maxConcurrency'
+      | 'maxQueue'
+    >
+  >;
+  private idempotency?: IdempotencyConfig;
+  private durability?: DurabilityConfig;
+  private queue?: JobQueue;
+  private transactions?: TransactionRunner;
+  private bulkhead?: Bulkhead;
+  private logger: Logger;
+  private redactedFields: ReadonlySet<string>;
+  private inputCheck?: TypeCheck<TSchema>;
+  private outputCheck?: TypeCheck<TSchema>;
+  private stageOverride?: (stage: PipelineStage<TContext>) => PipelineStage<TContext>;
+  private middleware: OrchestratorMiddleware<TContext>[] = [];
+  /** Circuit breakers of the stages that have one, by stage name */
+  private breakers = new Map<string, CircuitBreaker>();
 
   constructor(config: OrchestratorConfig) {
     this.config = {
@@ -26,6 +181,71 @@ export abstract class BaseOrchestrator<
       enableMetrics: config.enableMetrics ?? true,
       logErrors: config.logErrors ?? true,
     };
+    this.logger = OrchestratorLogging.create(config.name, config.logging);
+    this.redactedFields = OrchestratorLogging.fields(config.logging?.redact);
+    this.inputCheck = config.input && TypeCompiler.Compile(config.input);
+    this.outputCheck = config.output && TypeCompiler.Compile(config.output);
+    this.idempotency = config.idempotency;
+    this.durability = config.durability;
+    this.queue = config.queue;
+    this.transactions = config.transactions;
+    if (config.maxConcurrency !== undefined) {
+      this.bulkhead = new Bulkhead(config.maxConcurrency, config.maxQueue ?? Infinity);
+    }
+
+    // Jobs of this type are handled by the most recently constructed instance
+    this.queue?.register(this.getDeferredJobType(), (payload) =>
+      this.runDeferred(payload as DeferredStageJob)
+    );
+
+    OrchestratorRegistry.register(this);
+  }
+
+  /**
+   * Register middleware for every orchestrator. Returns a function that
+   * removes it again.
+   */
+  static use(middleware: OrchestratorMiddleware): () => void {
+    BaseOrchestrator.globalMiddleware.push(middleware);
+    return () => {
+      BaseOrchestrator.globalMiddleware = BaseOrchestrator.globalMiddleware.filter(
+        (entry) => entry !== middleware
+      );
+    };
+  }
+
+  /**
+   * Register middleware for this orchestrator only. It runs after the
+   * built-in and global middleware.
+   */
+  use(middleware: OrchestratorMiddleware<TContext>): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Embed this orchestrator as a stage of another orchestrator's pipeline.
+   * The child runs with the parent's requestId, abort signal and remaining
+   * time, and its stage reports and metrics are nested under the stage.
+   */
+  asStage<TParent extends OperationContext>(
+    options: NestedStageOptions<TParent, TInput, TResult>
+  ): PipelineStage<TParent> {
+    return NestedOrchestration.stage(this, options);
+  }
+
+  /**
+   * Run `replace(stage)` instead of each stage of this instance's pipeline,
+   * e.g. to stub stages in tests. Returns a function that restores the
+   * original stages.
+   */
+  overrideStages(replace: (stage: PipelineStage<TContext>) => PipelineStage<TContext>): () => void {
+    this.stageOverride = replace;
+    return () => {
+      if (this.stageOverride === replace) {
+        this.stageOverride = undefined;
+      }
+    };
   }
 
   /**
@@ -43,12 +263,361 @@ export abstract class BaseOrchestrator<
    */
   protected abstract buildResult(context: TContext): TResult;
 
+  /**
+   * Restore a result replayed from the idempotency store. Override when
+   * `TResult` holds values JSON does not round-trip, such as dates.
+   */
+  protected reviveResult(data: unknown): TResult {
+    return data as TResult;
+  }
+
+  /**
+   * Identify the input an idempotency key is used with; a repeat with a
+   * different fingerprint is rejected. Defaults to a hash of the input as JSON.
+   */
+  protected fingerprint(input: TInput): string {
+    return createHash('sha256').update(stableStringify(input)).digest('hex');
+  }
+
+  /**
+   * The serialisable slice of the context checkpointed after each stage of a
+   * durable run. Override to include pipeline-specific fields.
+   */
+  protected serializeContext(context: TContext): unknown {
+    return { results: context.results, metadata: context.metadata };
+  }
+
+  /**
+   * Apply a checkpoint taken by `serializeContext` to a fresh context when a
+   * durable run is resumed
+   */
+  protected restoreContext(context: TContext, state: unknown): TContext {
+    const { results, metadata } = state as Partial<Pick<OperationContext, 'results' | 'metadata'>>;
+    Object.assign(context.results, results);
+    Object.assign(context.metadata, metadata);
+    return context;
+  }
+
   /**
    * Execute the orchestration pipeline
    */
-  async execute(input: TInput): Promise<OrchestratorResult<TResult>> {
-    const startTime = Date.now();
+  async execute(input: TInput, options: ExecuteOptions = {}): Promise<OrchestratorResult<TResult>> {
+    const result = await this.traced(() =>
+      this.admit(options.signal, () =>
+        options.idempotencyKey && this.idempotency
+          ? this.executeIdempotent(input, options, options.idempotencyKey, this.idempotency)
+          : this.executePipeline(input, options)
+      )
+    );
+
+    this.emit(options.events, {
+      type: 'run_finished',
+      success: result.success,
+      duration: result.duration,
+      ...(result.success
+        ? { data: result.data }
+        : { stage: result.error?.stage, message: result.error?.message }),
+    });
+    return result;
+  }
+
+  /**
+   * Execute the pipeline once per input, at most `concurrency` runs at a
+   * time. Items share `ctx.batch.cache`; a failing item does not affect the
+   * others unless `stopOnError` is set, in which case items not started yet
+   * fail with stage 'batch'.
+   */
+  async executeMany(inputs: TInput[], options: BatchOptions = {}): Promise<BatchResult<TResult>> {
+    const startTime = performance.now();
+    const { concurrency = 5, stopOnError = false, ...executeOptions } = options;
+    const results: OrchestratorResult<TResult>[] = new Array<OrchestratorResult<TResult>>(
+      inputs.length
+    );
+    const cache = new Map<string, unknown>();
+    let next = 0;
+    let failed = false;
+    let skipped = 0;
+
+    // Each worker takes the next unstarted item until none are left
+    const worker = async () => {
+      while (next < inputs.length) {
+        const index = next++;
+        if (stopOnError && failed) {
+          skipped++;
+          results[index] = {
+            success: false,
+            error: new OrchestratorError('Skipped after an earlier item failed', 'batch'),
+            duration: 0,
+            stages: [],
+          };
+          continue;
+        }
+
+        const result = await this.execute(inputs[index] as TInput, {
+          ...executeOptions,
+          batch: { index, size: inputs.length, cache },
+        });
+        results[index] = result;
+        failed ||= !result.success;
+      }
+    };
+    const workers = Math.min(Math.max(concurrency, 1), inputs.length);
+    await Promise.all(Array.from({ length: workers }, worker));
+
+    const succeeded = results.filter((result) => result.success).length;
+    const summary = {
+      total: inputs.length,
+      succeeded,
+      failed: inputs.length - succeeded - skipped,
+      skipped,
+      duration: performance.now() - startTime,
+    };
+
+    if (this.config.enableMetrics) {
+      const service = this.config.name;
+      OrchestratorMetrics.batchItems.inc({ service, status: 'success' }, summary.succeeded);
+      OrchestratorMetrics.batchItems.inc({ service, status: 'error' }, summary.failed);
+      OrchestratorMetrics.batchItems.inc({ service, status: 'skipped' }, summary.skipped);
+      OrchestratorMetrics.batchDuration.observe({ service }, summary.duration);
+    }
+
+    return { results, summary };
+  }
+
+  /**
+   * Resume durable runs that were interrupted, e.g. by a crash or deploy,
+   * from their last completed stage. Call once on startup.
+   */
+  async recover(): Promise<OrchestratorResult<TResult>[]> {
+    if (!this.durability) {
+      return [];
+    }
+
+    // A run untouched for longer than it can take to run, compensate and
+    // finish has no live owner
+    const { store, staleAfter = this.config.timeout + STALE_RUN_MARGIN } = this.durability;
+    const runs = await store.claimStale(this.config.name, staleAfter);
+    const results: OrchestratorResult<TResult>[] = [];
+    for (const stored of runs) {
+      results.push(
+        await this.traced(() =>
+          this.admit(undefined, () =>
+            this.executePipeline(stored.input as TInput, {}, { resumeFrom: stored })
+          )
+        )
+      );
+    }
+
+    return results;
+  }
+
+  /**
+   * Run a deferred stage handed to the job queue. Throws when the stage fails
+   * so the queue retries it.
+   */
+  private async runDeferred(job: DeferredStageJob): Promise<void> {
+    const result = await this.traced(() =>
+      this.admit(undefined, () =>
+        this.executePipeline(job.input as TInput, {}, { deferredJob: job })
+      )
+    );
+    if (result.error) {
+      throw result.error;
+    }
+  }
+
+  /**
+   * Run an execution inside an `orchestrator <name>` span
+   */
+  private async traced(
+    executeFn: () => Promise<OrchestratorResult<TResult>>
+  ): Promise<OrchestratorResult<TResult>> {
+    return OrchestratorTracing.inSpan(
+      `orchestrator ${this.config.name}`,
+      { 'orchestrator.name': this.config.name },
+      async (span) => {
+        const result = await executeFn();
+
+        span.setAttributes({
+          'orchestrator.success': result.success,
+          'orchestrator.duration_ms': result.duration,
+          'orchestrator.replayed': Boolean(result.replayed),
+        });
+        if (result.error) {
+          span.setAttribute('orchestrator.error.stage', result.error.stage);
+          OrchestratorTracing.recordError(span, result.error);
+        }
+
+        return result;
+      }
+    );
+  }
+
+  /**
+   * Run `executeFn` once a concurrency slot is free. Runs that find the queue
+   * full, or are cancelled while queued, fail without starting.
+   */
+  private async admit(
+    signal: AbortSignal | undefined,
+    executeFn: () => Promise<OrchestratorResult<TResult>>
+  ): Promise<OrchestratorResult<TResult>> {
+    if (!this.bulkhead) {
+      return executeFn();
+    }
+
+    const startTime = performance.now();
+    const service = this.config.name;
+    let release: (() => void) | undefined;
+    try {
+      if (this.config.enableMetrics) {
+        OrchestratorMetrics.queuedOperations.set({ service }, this.bulkhead.queued + 1);
+      }
+      release = await this.bulkhead.acquire(signal);
+    } catch (error) {
+      const original = error instanceof Error ? error : new Error(String(error));
+      return {
+        success: false,
+        error: new OrchestratorError(original.message, 'queue', undefined, original),
+        duration: performance.now() - startTime,
+        stages: [],
+      };
+    } finally {
+      if (this.config.enableMetrics) {
+        OrchestratorMetrics.queuedOperations.set({ service }, this.bulkhead.queued);
+      }
+    }
+
+    if (!release) {
+      if (this.config.enableMetrics) {
+        OrchestratorMetrics.rejections.inc({ service });
+      }
+      // A slot frees up at the latest when the longest-running run times out
+      return {
+        success: false,
+        error: new OrchestratorOverloadError(service, Math.ceil(this.config.timeout / 1000)),
+        duration: performance.now() - startTime,
+        stages: [],
+      };
+    }
+
+    if (this.config.enableMetrics) {
+      OrchestratorMetrics.queueWait.observe({ service }, performance.now() - startTime);
+    }
+    try {
+      return await executeFn();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Run the pipeline at most once per idempotency key. A completed key
+   * replays its stored result; a key still in progress is a conflict. Failed
+   * runs release the key so the client can retry.
+   */
+  private async executeIdempotent(
+    input: TInput,
+    options: ExecuteOptions,
+    key: string,
+    {
+      store,
+      ttl = 24 * 60 * 60 * 1000,
+      lease = this.config.timeout + IDEMPOTENCY_LEASE_MARGIN,
+    }: IdempotencyConfig
+  ): Promise<OrchestratorResult<TResult>> {
+    const startTime = performance.now();
+    const scope = this.config.name;
+    const fingerprint = this.fingerprint(input);
+
+    let existing;
+    try {
+      existing = await store.claim(scope, key, lease, fingerprint);
+    } catch (error) {
+      const original = error instanceof Error ? error : new Error(String(error));
+      return {
+        success: false,
+        error: new OrchestratorError(original.message, 'idempotency', undefined, original),
+        duration: performance.now() - startTime,
+        stages: [],
+      };
+    }
+
+    // Replaying the response of a different request would hide the mistake
+    if (existing?.fingerprint !== undefined && existing.fingerprint !== fingerprint) {
+      return {
+        success: false,
+        error: new IdempotencyMismatchError(key),
+        duration: performance.now() - startTime,
+        stages: [],
+      };
+    }
+    if (existing?.status === 'completed') {
+      return {
+        success: true,
+        data: this.reviveResult(existing.data),
+        duration: performance.now() - startTime,
+        stages: [],
+        replayed: true,
+      };
+    }
+    if (existing) {
+      return {
+        success: false,
+        error: new IdempotencyConflictError(key),
+        duration: performance.now() - startTime,
+        stages: [],
+      };
+    }
+
+    const result = await this.executePipeline(input, options);
+    try {
+      if (result.success) {
+        await store.complete(scope, key, result.data, ttl);
+      } else {
+        await store.release(scope, key);
+      }
+    } catch (error) {
+      // The run itself is done; an unrecorded claim simply expires with its lease
+      if (this.config.logErrors) {
+        this.logger.error({ err: error, idempotencyKey: key }, 'Failed to record idempotency key');
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Run the pipeline and turn its outcome into a result
+   */
+  private async executePipeline(
+    input: TInput,
+    options: ExecuteOptions,
+    { resumeFrom, deferredJob }: RunPlan = {}
+  ): Promise<OrchestratorResult<TResult>> {
+    const startTime = performance.now();
+    const caller = Cancellation.child(options.signal);
+    // Runs started while serving a request end by the request's deadline
+    const request = RequestContext.get();
+    const timeout = Math.min(
+      this.config.timeout,
+      options.timeout ?? Infinity,
+      RequestContext.remaining() ?? Infinity
+    );
+    const run: PipelineRun<TContext> = {
+      completed: [],
+      controller: caller.controller,
+      skipped: [],
+      startTime,
+      timeout,
+      deadline: Date.now() + timeout,
+      active: new Map(),
+      reports: [],
+      events: options.events,
+      logger: this.logger,
+      injected: new Map(),
+    };
     let context: TContext | undefined;
+    let phase = 'resolve-pipeline';
 
     // Increment active operations
     if (this.config.enableMetrics) {
@@ -56,7 +625,23 @@ export abstract class BaseOrchestrator<
     }
 
     try {
+      // Resolve stage dependencies up front so invalid graphs never start
+      const pipeline = this.getPipeline();
+      let levels = PipelineGraph.resolve(
+        this.stageOverride ? pipeline.map(this.stageOverride) : pipeline
+      );
+
+      // Deferred stages leave the inline pipeline when a queue can take them
+      const deferred = this.queue ? levels.flat().filter((stage) => stage.mode === 'deferred') : [];
+      levels = levels
+        .map((level) => level.filter((stage) => !deferred.includes(stage)))
+        .filter((level) => level.length > 0);
+
+      // Reject input that breaks the contract before any work is done
+      this.validate('input', this.inputCheck, input);
+
       // Initialize context
+      phase = 'initialize-context';
       context = await this.initializeContext(input);
 
       // Add performance tracker if metrics are enabled
@@ -66,16 +651,72 @@ export abstract class BaseOrchestrator<
         context.perfTracker = new NullPerformanceTracker();
       }
 
-      // Get and execute pipeline
-      const pipeline = this.getPipeline();
+      context.signal = run.controller.signal;
+      context.deadline = run.deadline;
+      if (options.batch) {
+        context.batch = options.batch;
+      }
+      const requestId = options.requestId ?? request?.requestId;
+      if (requestId) {
+        context.requestId = requestId;
+      }
+      trace.getActiveSpan()?.setAttribute('orchestrator.request_id', context.requestId);
+      if (request?.user) {
+        trace.getActiveSpan()?.setAttribute('enduser.id', request.user.id);
+      }
+
+      if (deferredJob) {
+        phase = 'restore-context';
+        levels = [[this.findDeferredStage(deferred, deferredJob)]];
+        context = this.restoreContext(context, deferredJob.state);
+      } else if (this.durability) {
+        phase = 'start-run';
+        if (resumeFrom) {
+          levels = this.restoreRun(run, context, levels, resumeFrom);
+        }
+        run.runId = resumeFrom?.id ?? (await this.durability.store.start(this.config.name, input));
+      }
+
+      run.logger = this.logger.child({
+        requestId: context.requestId,
+        ...(run.runId && { runId: run.runId }),
+      });
+      context.logger = run.logger;
+      run.logger.debug(
+        {
+          event: 'pipeline_started',
+          input: this.redact(input),
+          ...(resumeFrom && { resumed: true }),
+          ...(deferredJob && { deferredStage: deferredJob.stage }),
+        },
+        'Pipeline started'
+      );
+
+      this.emit(run.events, {
+        type: 'run_started',
+        data: { orchestrator: this.config.name, requestId: context.requestId, runId: run.runId },
+      });
+
+      phase = 'before-execute';
+      for (const middleware of this.getMiddleware()) {
+        await middleware.beforeExecute?.(context);
+      }
 
       // Run pipeline with timeout
-      context = await this.runPipelineWithTimeout(context, pipeline);
+      phase = 'pipeline';
+      context = await this.runPipelineWithTimeout(run, context, levels);
+
+      // A deferred job only runs its stage; the caller already has the result
+      phase = 'build-result';
+      const result = deferredJob ? undefined : this.buildResult(context);
+      if (!deferredJob) {
+        this.validate('output', this.outputCheck, result);
+      }
 
-      // Build result
-      const result = this.buildResult(context);
+      phase = 'defer';
+      const handedOff = deferredJob ? [] : await this.deferStages(context, input, deferred);
 
-      const duration = Date.now() - startTime;
+      const duration = performance.now() - startTime;
 
       // Record success metrics
       if (this.config.enableMetrics) {
@@ -86,14 +727,35 @@ export abstract class BaseOrchestrator<
         OrchestratorMetrics.activeOperations.dec({ service: this.config.name });
       }
 
-      return {
+      await this.finishRun(run, 'completed');
+      run.logger.info(
+        {
+          event: 'pipeline_finished',
+          duration,
+          ...(run.skipped.length > 0 && { skipped: run.skipped }),
+          ...(handedOff.length > 0 && { deferred: handedOff }),
+        },
+        'Pipeline finished'
+      );
+
+      const success: OrchestratorResult<TResult> = {
         success: true,
         data: result,
         duration,
         metrics: context.perfTracker?.getMetrics(),
+        timings: context.perfTracker?.getSamples?.(),
+        stages: this.collectStageReports(run),
+        ...(run.skipped.length > 0 && { skipped: run.skipped }),
+        ...(run.runId && { runId: run.runId }),
+        ...(handedOff.length > 0 && { deferred: handedOff }),
       };
+      await this.notify('afterExecute', (middleware) =>
+        middleware.afterExecute?.(context, success)
+      );
+      return success;
     } catch (error) {
-      const duration = Date.now() - startTime;
+      const duration = performance.now() - startTime;
+      const failure = this.toOrchestratorError(error, run, phase);
 
       // Record error metrics
       if (this.config.enableMetrics) {
@@ -101,139 +763,1027 @@ export abstract class BaseOrchestrator<
           { service: this.config.name, status: 'error' },
           duration
         );
-        OrchestratorMetrics.pipelineErrors.inc({ service: this.config.name, stage: 'unknown' });
+        // Failed stages count their own error
+        const stageFailed =
+          run.active.has(failure.stage) ||
+          run.reports.some(
+            (report) =>
+              report.name === failure.stage &&
+              (report.status === 'failed' || report.status === 'timed_out')
+          );
+        if (!stageFailed) {
+          OrchestratorMetrics.pipelineErrors.inc({
+            service: this.config.name,
+            stage: failure.stage,
+            injected: String(run.injected.size > 0),
+          });
+        }
         OrchestratorMetrics.activeOperations.dec({ service: this.config.name });
       }
 
       if (this.config.logErrors) {
-        console.error(`[${this.config.name}] Orchestration error:`, error);
+        run.logger.error(
+          {
+            event: 'pipeline_failed',
+            stage: failure.stage,
+            duration,
+            ...(run.injected.size > 0 && { injected: Object.fromEntries(run.injected) }),
+            err: failure,
+            ...(context && { context: this.redact(this.serializeContext(context)) }),
+          },
+          'Pipeline failed'
+        );
       }
 
-      return {
+      const stages = this.collectStageReports(run);
+      const compensations = await this.compensate(run, failure);
+      await this.finishRun(run, 'failed');
+
+      const result: OrchestratorResult<TResult> = {
         success: false,
-        error: error instanceof Error ? error : new Error(String(error)),
-        duration: Date.now() - startTime,
+        error: failure,
+        duration: performance.now() - startTime,
         metrics: context?.perfTracker?.getMetrics(),
+        timings: context?.perfTracker?.getSamples?.(),
+        stages,
+        ...(compensations.length > 0 && { compensations }),
+        ...(run.skipped.length > 0 && { skipped: run.skipped }),
+        ...(run.runId && { runId: run.runId }),
       };
+      await this.notify('afterExecute', (middleware) => middleware.afterExecute?.(context, result));
+      return result;
+    } finally {
+      caller.release();
     }
   }
 
   /**
-   * Run the pipeline with timeout protection
+   * Run the pipeline with timeout protection. On timeout the run is aborted,
+   * so no further stage starts and running stages see their signal fire.
    */
   private async runPipelineWithTimeout(
+    run: PipelineRun<TContext>,
     context: TContext,
-    pipeline: PipelineStage<TContext>[]
+    levels: PipelineStage<TContext>[][]
   ): Promise<TContext> {
-    return new Promise((resolve, reject) => {
-      const timeoutId = setTimeout(() => {
-        reject(
-          new Error(
-            `Pipeline timeout after ${this.config.timeout}ms in orchestrator: ${this.config.name}`
-          ) as OrchestratorError
-        );
-      }, this.config.timeout);
+    const timeoutId = setTimeout(() => {
+      const [runningStage = 'pipeline'] = run.active.keys();
+      run.controller.abort(
+        new OrchestratorTimeoutError(
+          `Pipeline timeout after ${run.timeout}ms in orchestrator: ${this.config.name}`,
+          runningStage,
+          run.timeout
+        )
+      );
+    }, run.timeout);
 
-      this.runPipeline(context, pipeline)
-        .then((result) => {
-          clearTimeout(timeoutId);
-          resolve(result);
-        })
-        .catch((error) => {
-          clearTimeout(timeoutId);
-          reject(error);
-        });
-    });
+    try {
+      return await Cancellation.race(this.runPipeline(run, context, levels), run.controller.signal);
+    } catch (error) {
+      // The race rejects as soon as the run aborts. Let an open transaction
+      // settle first, so its stages are compensated only if it committed.
+      if (run.transaction) {
+        await run.transactionSettled;
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
   }
 
   /**
-   * Execute the pipeline stages sequentially
+   * Execute the pipeline, running each transaction group in its own
+   * transaction
    */
   private async runPipeline(
+    run: PipelineRun<TContext>,
     context: TContext,
-    pipeline: PipelineStage<TContext>[]
+    levels: PipelineStage<TContext>[][]
   ): Promise<TContext> {
     let currentContext = context;
+    let index = 0;
 
-    for (const stage of pipeline) {
-      const stageStartTime = Date.now();
-      try {
-        // Wrap operation with performance tracking
-        const wrappedOperation = PerformanceInterceptor.wrap(stage.operation, stage.name);
-
-        // Apply stage-specific timeout if provided
-        if (stage.timeout) {
-          currentContext = await this.runWithTimeout(
-            wrappedOperation,
-            currentContext,
-            stage.timeout,
-            stage.name
-          );
-        } else {
-          currentContext = await wrappedOperation(currentContext);
+    while (index < levels.length) {
+      const group = transactionOf(levels[index]);
+      let end = index + 1;
+      while (end < levels.length && transactionOf(levels[end]) === group) {
+        end++;
+      }
+
+      const segment = levels.slice(index, end);
+      if (group) {
+        const transaction = this.runTransaction(run, currentContext, group, segment);
+        run.transactionSettled = transaction.then(
+          () => undefined,
+          () => undefined
+        );
+        currentContext = await transaction;
+      } else {
+        currentContext = await this.runLevels(run, currentContext, segment);
+      }
+      index = end;
+    }
+
+    return currentContext;
+  }
+
+  /**
+   * Run the levels of a transaction group in one transaction, with its client
+   * on the context as `tx`.
+   *
+   * Stages of a rolled back group have nothing left to undo, so they are not
+   * compensated. Their checkpoints are written once the transaction commits,
+   * so a resumed run never skips rolled back stages.
+   */
+  private async runTransaction(
+    run: PipelineRun<TContext>,
+    context: TContext,
+    group: string,
+    levels: PipelineStage<TContext>[][]
+  ): Promise<TContext> {
+    if (!this.transactions) {
+      throw new OrchestratorError(
+        `Transaction '${group}' requires a transaction runner in the orchestrator config`,
+        group
+      );
+    }
+
+    const transactionStart = performance.now();
+    const firstCompleted = run.completed.length;
+    let status: 'committed' | 'rolled_back' = 'rolled_back';
+    run.transaction = group;
+
+    try {
+      const result = await this.transactions.run(
+        (tx) => {
+          context.tx = tx;
+          return this.runLevels(run, context, levels);
+        },
+        { timeout: Math.max(run.deadline - Date.now(), 1) }
+      );
+      status = 'committed';
+
+      // The client is unusable once the transaction has ended
+      delete result.tx;
+      const committed = run.completed.slice(firstCompleted);
+      for (const entry of committed) {
+        delete entry.context.tx;
+      }
+      for (const entry of committed) {
+        await this.checkpoint(run, entry.stage, entry.context);
+      }
+
+      return result;
+    } catch (error) {
+      run.completed.splice(firstCompleted);
+      throw error;
+    } finally {
+      run.transaction = undefined;
+      delete context.tx;
+
+      if (this.config.enableMetrics) {
+        OrchestratorMetrics.transactionDuration.observe(
+          { service: this.config.name, transaction: group, status },
+          performance.now() - transactionStart
+        );
+      }
+    }
+  }
+
+  /**
+   * Execute levels one after another, running independent stages concurrently
+   */
+  private async runLevels(
+    run: PipelineRun<TContext>,
+    context: TContext,
+    levels: PipelineStage<TContext>[][]
+  ): Promise<TContext> {
+    let currentContext = context;
+
+    for (const level of levels) {
+      // Never start a stage once the run has been aborted
+      if (run.controller.signal.aborted) {
+        throw Cancellation.reason(run.controller.signal);
+      }
+
+      const [onlyStage] = level;
+      currentContext =
+        level.length === 1 && onlyStage
+          ? await this.runStage(run, currentContext, onlyStage)
+          : await this.runParallel(run, currentContext, level);
+    }
+
+    return currentContext;
+  }
+
+  /**
+   * Run independent stages at the same time.
+   *
+   * Each stage receives a shallow copy of the context. Once all of them have
+   * settled, top-level fields they changed are copied back in pipeline order,
+   * so on conflicting writes the stage declared last wins. Nested objects such
+   * as `results` and `errors` are shared and merge naturally.
+   */
+  private async runParallel(
+    run: PipelineRun<TContext>,
+    context: TContext,
+    level: PipelineStage<TContext>[]
+  ): Promise<TContext> {
+    const base = { ...context } as Record<string, unknown>;
+    const outcomes = await Promise.allSettled(
+      level.map((stage) => this.runStage(run, { ...context }, stage))
+    );
+
+    const merged = context as Record<string, unknown>;
+    let criticalFailure: unknown;
+
+    for (const outcome of outcomes) {
+      if (outcome.status === 'rejected') {
+        criticalFailure ??= outcome.reason;
+        continue;
+      }
+
+      const branch = outcome.value as Record<string, unknown>;
+      for (const key of Object.keys(branch)) {
+        if (branch[key] !== base[key]) {
+          merged[key] = branch[key];
         }
+      }
+    }
 
-        // Record stage success metrics
-        if (this.config.enableMetrics) {
-          const stageDuration = Date.now() - stageStartTime;
-          OrchestratorMetrics.stageLatency.observe(
-            { service: this.config.name, stage: stage.name },
-            stageDuration
-          );
+    if (criticalFailure !== undefined) {
+      throw criticalFailure;
+    }
+
+    return context;
+  }
+
+  /**
+   * Execute a single stage inside a `stage <name>` span
+   */
+  private async runStage(
+    run: PipelineRun<TContext>,
+    context: TContext,
+    stage: PipelineStage<TContext>
+  ): Promise<TContext> {
+    return OrchestratorTracing.inSpan(
+      `stage ${stage.name}`,
+      {
+        'orchestrator.name': this.config.name,
+        'orchestrator.stage': stage.name,
+        'orchestrator.stage.critical': Boolean(stage.critical),
+      },
+      async (span) => {
+        try {
+          return await this.executeStage(run, context, stage);
+        } finally {
+          const report = run.reports.find((entry) => entry.name === stage.name);
+          if (report) {
+            OrchestratorTracing.recordStage(span, report);
+          }
         }
-      } catch (error) {
-        // Record stage error metrics
-        if (this.config.enableMetrics) {
-          OrchestratorMetrics.pipelineErrors.inc({
-            service: this.config.name,
+      }
+    );
+  }
+
+  /**
+   * Execute a single stage, applying its middleware, timeout, retry policy
+   * and criticality.
+   *
+   * Every attempt runs on a shallow copy of the context carrying its own
+   * abort signal, which fires on stage timeout or when the run is aborted.
+   */
+  private async executeStage(
+    run: PipelineRun<TContext>,
+    context: TContext,
+    stage: PipelineStage<TContext>
+  ): Promise<TContext> {
+    const stageStartTime = performance.now();
+    let attempt = 1;
+    run.active.set(stage.name, stageStartTime);
+    try {
+      if (stage.when && !(await stage.when(context))) {
+        run.skipped.push(stage.name);
+        const report = this.recordStage(run, stage, {
+          status: 'skipped',
+          startTime: stageStartTime,
+          attempts: 0,
+        });
+        this.emit(run.events, { type: 'stage_skipped', stage: stage.name });
+        await this.notify('afterStage', (middleware) =>
+          middleware.afterStage?.(context, stage, report)
+        );
+        return context;
+      }
+
+      this.emit(run.events, { type: 'stage_started', stage: stage.name });
+
+      // A throwing beforeStage hook fails the stage like its operation would
+      for (const middleware of this.getMiddleware()) {
+        await middleware.beforeStage?.(context, stage);
+      }
+
+      for (;;) {
+        try {
+          if (run.controller.signal.aborted) {
+            throw Cancellation.reason(run.controller.signal);
+          }
+
+          const nextContext = await this.runAttempt(run, context, stage);
+          nextContext.signal = run.controller.signal;
+          nextContext.deadline = run.deadline;
+          const nested = NestedOrchestration.take(nextContext);
+
+          run.completed.push({ stage, context: nextContext });
+          // Stages in a transaction are checkpointed once it commits
+          if (!run.transaction) {
+            await this.checkpoint(run, stage, nextContext);
+          }
+
+          // Record stage success metrics
+          if (this.config.enableMetrics) {
+            const stageDuration = performance.now() - stageStartTime;
+            OrchestratorMetrics.stageLatency.observe(
+              { service: this.config.name, stage: stage.name },
+              stageDuration
+            );
+          }
+          const report = this.recordStage(run, stage, {
+            status: 'success',
+            startTime: stageStartTime,
+            attempts: attempt,
+            nested,
+          });
+          this.emit(run.events, {
+            type: 'stage_finished',
             stage: stage.name,
+            duration: report.duration,
           });
+          run.logger.debug(
+            {
+              event: 'stage_finished',
+              stage: stage.name,
+              duration: report.duration,
+              attempts: attempt,
+            },
+            'Stage finished'
+          );
+          await this.notify('afterStage', (middleware) =>
+            middleware.afterStage?.(nextContext, stage, report)
+          );
+
+          return nextContext;
+        } catch (error) {
+          if (
+            !stage.retry ||
+            run.controller.signal.aborted ||
+            error instanceof CircuitOpenError ||
+            !StageRetry.shouldRetry(stage.retry, error, attempt)
+          ) {
+            throw error;
+          }
+
+          if (this.config.enableMetrics) {
+            OrchestratorMetrics.stageRetries.inc({ service: this.config.name, stage: stage.name });
+          }
+          run.logger.debug(
+            { event: 'stage_retrying', stage: stage.name, attempt, err: error },
+            'Stage failed, retrying'
+          );
+
+          await StageRetry.wait(StageRetry.delayFor(stage.retry, attempt), run.controller.signal);
+          attempt++;
         }
+      }
+    } catch (error) {
+      const stageError = error instanceof Error ? error : new Error(String(error));
 
-        // If stage is critical, fail the entire pipeline
-        if (stage.critical) {
-          throw new Error(
-            `Critical stage '${stage.name}' failed: ${error instanceof Error ? error.message : String(error)}`
-          ) as OrchestratorError;
+      if (stage.fallback && !run.controller.signal.aborted) {
+        const degraded = await this.runFallback(run, context, stage, stage.fallback, stageError, {
+          startTime: stageStartTime,
+          attempts: attempt,
+        });
+        if (degraded) {
+          return degraded;
         }
+      }
 
-        // For non-critical stages, log error and continue
-        if (this.config.logErrors) {
-          console.warn(`[${this.config.name}] Non-critical stage '${stage.name}' failed:`, error);
+      // Record stage error metrics
+      if (this.config.enableMetrics) {
+        OrchestratorMetrics.pipelineErrors.inc({
+          service: this.config.name,
+          stage: stage.name,
+          injected: String(run.injected.has(stage.name)),
+        });
+      }
+      const report = this.recordStage(run, stage, {
+        status: stageError instanceof OrchestratorTimeoutError ? 'timed_out' : 'failed',
+        startTime: stageStartTime,
+        attempts: attempt,
+        error: stageError,
+        nested: stageError instanceof NestedOrchestratorError ? stageError.nested : undefined,
+      });
+      this.emit(run.events, {
+        type: 'stage_failed',
+        stage: stage.name,
+        message: stageError.message,
+        duration: report.duration,
+      });
+      if (this.config.logErrors) {
+        run.logger.warn(
+          {
+            event: 'stage_failed',
+            stage: stage.name,
+            critical: stage.critical ?? false,
+            attempts: attempt,
+            duration: report.duration,
+            ...(report.injected && { injected: report.injected }),
+            err: stageError,
+          },
+          'Stage failed'
+        );
+      }
+      await this.notify('onStageError', (middleware) =>
+        middleware.onStageError?.(context, stage, stageError, report)
+      );
+
+      // An aborted run fails regardless of the stage's criticality
+      if (run.controller.signal.aborted) {
+        throw Cancellation.reason(run.controller.signal);
+      }
+
+      // If stage is critical, fail the entire pipeline
+      if (stage.critical) {
+        throw new OrchestratorError(
+          `Critical stage '${stage.name}' failed: ${stageError.message}`,
+          stage.name,
+          undefined,
+          stageError
+        );
+      }
+
+      // Add error to context
+      context.errors.push(stageError);
+      return context;
+    } finally {
+      run.active.delete(stage.name);
+    }
+  }
+
+  /**
+   * Replace a finally failed stage with the context of its fallback.
+   * Resolves to undefined when the fallback fails too, leaving the stage to
+   * fail with its own error.
+   *
+   * A degraded context is neither compensated nor checkpointed; the stage
+   * error is added to `context.errors` so the result can tell it degraded.
+   */
+  private async runFallback(
+    run: PipelineRun<TContext>,
+    context: TContext,
+    stage: PipelineStage<TContext>,
+    fallback: StageFallback<TContext>,
+    stageError: Error,
+    outcome: { startTime: number; attempts: number }
+  ): Promise<TContext | undefined> {
+    let degraded: TContext;
+    try {
+      degraded = await fallback(context, stageError);
+    } catch (error) {
+      if (this.config.logErrors) {
+        run.logger.warn(
+          { event: 'stage_fallback_failed', stage: stage.name, err: error },
+          'Stage fallback failed'
+        );
+      }
+      return undefined;
+    }
+
+    degraded.errors.push(stageError);
+    const report = this.recordStage(run, stage, {
+      status: 'fallback',
+      ...outcome,
+      error: stageError,
+    });
+    this.emit(run.events, {
+      type: 'stage_finished',
+      stage: stage.name,
+      message: `Fallback after: ${stageError.message}`,
+      duration: report.duration,
+    });
+    if (this.config.logErrors) {
+      run.logger.warn(
+        {
+          event: 'stage_fallback',
+          stage: stage.name,
+          attempts: outcome.attempts,
+          duration: report.duration,
+          err: stageError,
+        },
+        'Stage failed, continuing with its fallback'
+      );
+    }
+    await this.notify('afterStage', (middleware) =>
+      middleware.afterStage?.(degraded, stage, report)
+    );
+
+    return degraded;
+  }
+
+  /**
+   * The circuit breaker of a stage, created on first use
+   */
+  private breakerFor(stage: PipelineStage<TContext>): CircuitBreaker | undefined {
+    if (!stage.circuitBreaker) {
+      return undefined;
+    }
+
+    let breaker = this.breakers.get(stage.name);
+    if (!breaker) {
+      const labels = { service: this.config.name, stage: stage.name };
+      breaker = new CircuitBreaker(
+        {
+          failureThreshold: stage.circuitBreaker.failureThreshold ?? 5,
+          openDuration: stage.circuitBreaker.openDuration ?? 30000,
+          halfOpenProbes: stage.circuitBreaker.halfOpenProbes ?? 1,
+        },
+        (state) => {
+          if (this.config.enableMetrics) {
+            OrchestratorMetrics.circuitState.set(labels, CIRCUIT_GAUGE[state]);
+          }
+          this.logger.warn(
+            { event: 'circuit_state_changed', stage: stage.name, state },
+            `Circuit breaker ${state.replace('_', '-')}`
+          );
         }
+      );
+      if (this.config.enableMetrics) {
+        OrchestratorMetrics.circuitState.set(labels, CIRCUIT_GAUGE.closed);
+      }
+      this.breakers.set(stage.name, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Run one attempt of a stage, aborting it when its timeout fires. Stages
+   * with a circuit breaker fail at once while it is open; attempts cut short
+   * by the run being aborted or hit by injected faults do not count towards it.
+   */
+  private async runAttempt(
+    run: PipelineRun<TContext>,
+    context: TContext,
+    stage: PipelineStage<TContext>
+  ): Promise<TContext> {
+    const breaker = this.breakerFor(stage);
+    const recordOutcome = breaker?.acquire();
+    if (breaker && !recordOutcome) {
+      throw new CircuitOpenError(stage.name, breaker.retryIn);
+    }
+
+    const faults = FaultInjection.select(this.config.name, stage.name);
+    const operation = faults.length > 0 ? this.injectFaults(run, stage, faults) : stage.operation;
+
+    const { controller, release } = Cancellation.child(run.controller.signal);
+    const timeoutId = stage.timeout
+      ? setTimeout(() => {
+          controller.abort(
+            new OrchestratorTimeoutError(
+              `Stage '${stage.name}' timeout after ${stage.timeout}ms`,
+              stage.name,
+              stage.timeout ?? 0
+            )
+          );
+        }, stage.timeout)
+      : undefined;
+
+    try {
+      const nextContext = await Cancellation.race(
+        operation({
+          ...context,
+          signal: controller.signal,
+          progress: (message, data) =>
+            this.emit(run.events, { type: 'progress', stage: stage.name, message, data }),
+          deadline: stage.timeout
+            ? Math.min(run.deadline, Date.now() + stage.timeout)
+            : run.deadline,
+        }),
+        controller.signal
+      );
+      recordOutcome?.('success');
+      return nextContext;
+    } catch (error) {
+      // Injected faults must not open the breaker of a healthy stage
+      recordOutcome?.(run.controller.signal.aborted || faults.length > 0 ? 'ignored' : 'failure');
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      release();
+    }
+  }
 
-        // Add error to context
-        currentContext.errors.push(error instanceof Error ? error : new Error(String(error)));
+  /**
+   * Wrap the stage's operation so the faults run first. Injected faults are
+   * counted and logged as such, and listed in the stage report.
+   */
+  private injectFaults(
+    run: PipelineRun<TContext>,
+    stage: PipelineStage<TContext>,
+    faults: FaultRule[]
+  ): PipelineOperation<TContext> {
+    const kinds = faults.map((rule) => rule.fault);
+    run.injected.set(stage.name, [...(run.injected.get(stage.name) ?? []), ...kinds]);
+    for (const fault of kinds) {
+      if (this.config.enableMetrics) {
+        OrchestratorMetrics.injectedFaults.inc({
+          service: this.config.name,
+          stage: stage.name,
+          fault,
+        });
       }
     }
+    run.logger.warn(
+      { event: 'fault_injected', stage: stage.name, injected: kinds },
+      'Injecting faults into stage'
+    );
 
-    return currentContext;
+    return async (context) => {
+      await FaultInjection.apply(faults, stage.name, context.signal);
+      return stage.operation(context);
+    };
+  }
+
+  /**
+   * The stage a deferred job runs. It runs as critical so that its failure
+   * reaches the queue.
+   */
+  private findDeferredStage(
+    deferred: PipelineStage<TContext>[],
+    job: DeferredStageJob
+  ): PipelineStage<TContext> {
+    const stage = deferred.find((entry) => entry.name === job.stage);
+    if (!stage) {
+      throw new OrchestratorError(`Unknown deferred stage '${job.stage}'`, job.stage);
+    }
+    return { ...stage, critical: true };
   }
 
   /**
-   * Run an operation with a specific timeout
+   * Enqueue a job per deferred stage and return the names of those handed
+   * off. The inline stages already succeeded, so enqueue failures are logged
+   * rather than failing the run.
    */
-  private async runWithTimeout<T>(
-    operation: (context: TContext) => Promise<T>,
+  private async deferStages(
     context: TContext,
-    timeout: number,
-    stageName: string
-  ): Promise<T> {
-    return new Promise((resolve, reject) => {
-      const timeoutId = setTimeout(() => {
-        reject(new Error(`Stage '${stageName}' timeout after ${timeout}ms`) as OrchestratorError);
-      }, timeout);
-
-      operation(context)
-        .then((result) => {
-          clearTimeout(timeoutId);
-          resolve(result);
-        })
-        .catch((error) => {
-          clearTimeout(timeoutId);
-          reject(error);
+    input: TInput,
+    deferred: PipelineStage<TContext>[]
+  ): Promise<string[]> {
+    if (!this.queue || deferred.length === 0) {
+      return [];
+    }
+
+    const state = this.serializeContext(context);
+    const handedOff: string[] = [];
+    for (const stage of deferred) {
+      const job: DeferredStageJob = { stage: stage.name, input, state };
+      try {
+        await this.queue.enqueue(this.getDeferredJobType(), job);
+        handedOff.push(stage.name);
+      } catch (error) {
+        if (this.config.logErrors) {
+          (context.logger ?? this.logger).error(
+            { err: error, stage: stage.name },
+            'Failed to defer stage'
+          );
+        }
+      }
+    }
+
+    return handedOff;
+  }
+
+  /**
+   * Restore the checkpoints of a resumed run onto `context` and drop the
+   * stages they cover from the pipeline. Restored stages are compensated like
+   * ones that ran in this process.
+   */
+  private restoreRun(
+    run: PipelineRun<TContext>,
+    context: TContext,
+    levels: PipelineStage<TContext>[][],
+    stored: StoredRun
+  ): PipelineStage<TContext>[][] {
+    const done = new Set<string>();
+    for (const checkpoint of stored.stages) {
+      this.restoreContext(context, checkpoint.state);
+      done.add(checkpoint.name);
+    }
+
+    const stages = levels.flat();
+    for (const name of done) {
+      const stage = stages.find((entry) => entry.name === name);
+      if (stage) {
+        run.completed.push({ stage, context });
+      }
+    }
+
+    return levels
+      .map((level) => level.filter((stage) => !done.has(stage.name)))
+      .filter((level) => level.length > 0);
+  }
+
+  /**
+   * Journal a completed stage of a durable run. A lost checkpoint only
+   * matters if the process dies, so failures are logged, not thrown.
+   */
+  private async checkpoint(
+    run: PipelineRun<TContext>,
+    stage: PipelineStage<TContext>,
+    context: TContext
+  ): Promise<void> {
+    if (!this.durability || !run.runId) {
+      return;
+    }
+
+    try {
+      await this.durability.store.checkpoint(run.runId, stage.name, this.serializeContext(context));
+    } catch (error) {
+      if (this.config.logErrors) {
+        run.logger.error({ err: error, stage: stage.name }, 'Failed to checkpoint stage');
+      }
+    }
+  }
+
+  /**
+   * Mark a durable run as finished so it is never resumed
+   */
+  private async finishRun(
+    run: PipelineRun<TContext>,
+    status: 'completed' | 'failed'
+  ): Promise<void> {
+    if (!this.durability || !run.runId) {
+      return;
+    }
+
+    try {
+      await this.durability.store.finish(run.runId, status);
+    } catch (error) {
+      if (this.config.logErrors) {
+        run.logger.error({ err: error, status }, 'Failed to finish run');
+      }
+    }
+  }
+
+  /**
+   * Undo completed stages in reverse order. A failing compensation is
+   * reported and does not stop the remaining ones.
+   */
+  private async compensate(
+    run: PipelineRun<TContext>,
+    error: Error
+  ): Promise<CompensationReport[]> {
+    const reports: CompensationReport[] = [];
+
+    for (const { stage, context } of [...run.completed].reverse()) {
+      if (!stage.compensate) {
+        continue;
+      }
+
+      let report: CompensationReport;
+      try {
+        await stage.compensate(context, error);
+        report = { stage: stage.name, status: 'compensated' };
+      } catch (compensationError) {
+        report = {
+          stage: stage.name,
+          status: 'failed',
+          error:
+            compensationError instanceof Error
+              ? compensationError
+              : new Error(String(compensationError)),
+        };
+
+        if (this.config.logErrors) {
+          run.logger.error(
+            { event: 'compensation_failed', stage: stage.name, err: compensationError },
+            'Compensation failed'
+          );
+        }
+      }
+
+      if (this.config.enableMetrics) {
+        OrchestratorMetrics.compensations.inc({
+          service: this.config.name,
+          stage: stage.name,
+          status: report.status,
         });
-    });
+      }
+
+      reports.push(report);
+    }
+
+    return reports;
+  }
+
+  /**
+   * Add a stage report to the run and count its outcome
+   */
+  private recordStage(
+    run: PipelineRun<TContext>,
+    stage: PipelineStage<TContext>,
+    outcome: {
+      status: StageOutcome;
+      startTime: number;
+      attempts: number;
+      error?: Error;
+      nested?: NestedRunReport;
+    }
+  ): StageReport {
+    const report: StageReport = {
+      name: stage.name,
+      status: outcome.status,
+      startOffset: outcome.startTime - run.startTime,
+      duration: performance.now() - outcome.startTime,
+      attempts: outcome.attempts,
+      ...(outcome.error && { error: outcome.error }),
+      ...(outcome.nested && { nested: outcome.nested }),
+      ...(run.injected.has(stage.name) && { injected: run.injected.get(stage.name) }),
+    };
+    run.reports.push(report);
+
+    if (this.config.enableMetrics) {
+      OrchestratorMetrics.stageOutcomes.inc({
+        service: this.config.name,
+        stage: stage.name,
+        outcome: outcome.status,
+        injected: String(run.injected.has(stage.name)),
+      });
+    }
+
+    return report;
+  }
+
+  /**
+   * Snapshot the stage reports, including stages still running when the run
+   * was aborted, ordered by start time
+   */
+  private collectStageReports(run: PipelineRun<TContext>): StageReport[] {
+    const now = performance.now();
+    const abortReason = run.controller.signal.aborted
+      ? Cancellation.reason(run.controller.signal)
+      : undefined;
+
+    // A stage that reported its failure may not have left `active` yet
+    const reported = new Set(run.reports.map((report) => report.name));
+    const interrupted = [...run.active]
+      .filter(([name]) => !reported.has(name))
+      .map(
+        ([name, startTime]): StageReport => ({
+          name,
+          status: abortReason instanceof OrchestratorTimeoutError ? 'timed_out' : 'failed',
+          startOffset: startTime - run.startTime,
+          duration: now - startTime,
+          attempts: 1,
+          ...(abortReason && { error: abortReason }),
+        })
+      );
+
+    return [...run.reports, ...interrupted].sort((a, b) => a.startOffset - b.startOffset);
+  }
+
+  /**
+   * Normalise any failure into an OrchestratorError naming where it happened
+   */
+  private toOrchestratorError(
+    error: unknown,
+    run: PipelineRun<TContext>,
+    phase: string
+  ): OrchestratorError {
+    if (error instanceof OrchestratorError) {
+      return error;
+    }
+
+    const original = error instanceof Error ? error : new Error(String(error));
+    const [runningStage] = run.active.keys();
+    const stage = phase === 'pipeline' ? (runningStage ?? phase) : phase;
+    return new OrchestratorError(original.message, stage, undefined, original);
+  }
+
+  /**
+   * Built-in, global and per-orchestrator middleware, in the order they run
+   */
+  private getMiddleware(): OrchestratorMiddleware<TContext>[] {
+    return [performanceMiddleware, ...BaseOrchestrator.globalMiddleware, ...this.middleware];
+  }
+
+  /**
+   * Run an observing hook on every middleware. Failures are logged and never
+   * change the outcome of the stage or run.
+   */
+  private async notify(
+    hook: keyof OrchestratorMiddleware,
+    call: (middleware: OrchestratorMiddleware<TContext>) => void | Promise<void>
+  ): Promise<void> {
+    for (const middleware of this.getMiddleware()) {
+      try {
+        await call(middleware);
+      } catch (error) {
+        if (this.config.logErrors) {
+          this.logger.error(
+            { err: error, middleware: middleware.name, hook },
+            'Middleware hook failed'
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Publish a run event. A failing subscriber never affects the run.
+   */
+  private emit(events: RunEventSink | undefined, event: Omit<RunEvent, 'id' | 'timestamp'>): void {
+    try {
+      events?.emit(event);
+    } catch (error) {
+      if (this.config.logErrors) {
+        this.logger.error({ err: error, eventType: event.type }, 'Failed to publish run event');
+      }
+    }
+  }
+
+  /**
+   * Throw an OrchestratorValidationError listing every field of `value`
+   * that does not match the schema
+   */
+  private validate(
+    stage: 'input' | 'output',
+    check: TypeCheck<TSchema> | undefined,
+    value: unknown
+  ): void {
+    if (!check || check.Check(value)) {
+      return;
+    }
+
+    const issues = [...check.Errors(value)].map((error) => ({
+      path: error.path,
+      message: error.message,
+    }));
+    throw new OrchestratorValidationError(stage, issues);
+  }
+
+  /**
+   * Mask the configured sensitive fields before a value is logged
+   */
+  private redact(value: unknown): unknown {
+    return OrchestratorLogging.redact(value, this.redactedFields);
+  }
+
+  /**
+   * Queue job type for this orchestrator's deferred stages
+   */
+  private getDeferredJobType(): string {
+    return `orchestrator:${this.config.name}`;
+  }
+
+  /**
+   * Describe the configuration and pipeline, e.g. for the admin routes
+   */
+  describe(): OrchestratorInfo {
+    return {
+      ...this.config,
+      idempotent: Boolean(this.idempotency),
+      durable: Boolean(this.durability),
+      queued: Boolean(this.queue),
+      transactional: Boolean(this.transactions),
+      ...(this.bulkhead && { maxConcurrency: this.bulkhead.maxConcurrency }),
+      ...(this.bulkhead &&
+        Number.isFinite(this.bulkhead.maxQueue) && { maxQueue: this.bulkhead.maxQueue }),
+      stages: this.getPipeline().map((stage) => ({
+        name: stage.name,
+        critical: Boolean(stage.critical),
+        timeout: stage.timeout,
+        mode: stage.mode ?? 'inline',
+        dependsOn: stage.dependsOn,
+        maxAttempts: stage.retry?.maxAttempts ?? 1,
+        conditional: Boolean(stage.when),
+        compensated: Boolean(stage.compensate),
+        transaction: stage.transaction,
+        fallback: Boolean(stage.fallback),
+        circuitBreaker: Boolean(stage.circuitBreaker),
+      })),
+    };
+  }
+
+  /**
+   * Current state of every stage circuit breaker that has been used
+   */
+  circuitBreakers(): CircuitBreakerInfo[] {
+    return [...this.breakers].map(([stage, breaker]) => ({
+      orchestrator: this.config.name,
+      stage,
+      state: breaker.state,
+      retryIn: breaker.retryIn,
+    }));
   }
 
   /**
@@ -0,0 +1,77 @@
+import { Cancellation } from './cancellation.js';
+
+/** Hands a free slot to a queued run */
+type Waiter = (release: () => void) => void;
+
+/**
+ * Limits how many runs execute at once, queuing the rest in FIFO order
+ */
+export class Bulkhead {
+  private running = 0;
+  private waiters: Waiter[] = [];
+
+  constructor(
+    readonly maxConcurrency: number,
+    readonly maxQueue: number
+  ) {}
+
+  get active(): number {
+    return this.running;
+  }
+
+  get queued(): number {
+    return this.waiters.length;
+  }
+
+  /**
+   * Resolve with a release function once a slot is free, or with undefined
+   * straight away when the queue is full. Rejects with the abort reason if
+   * `signal` aborts while waiting.
+   */
+  acquire(signal?: AbortSignal): Promise<(() => void) | undefined> {
+    if (signal?.aborted) {
+      return Promise.reject(Cancellation.reason(signal));
+    }
+    if (this.running < this.maxConcurrency) {
+      this.running++;
+      return Promise.resolve(this.releaser());
+    }
+    if (this.waiters.length >= this.maxQueue) {
+      return Promise.resolve(undefined);
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.waiters = this.waiters.filter((entry) => entry !== waiter);
+        reject(Cancellation.reason(signal as AbortSignal));
+      };
+      const waiter: Waiter = (release) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(release);
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * A release function that hands the slot to the longest waiting run
+   */
+  private releaser(): () => void {
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+
+      const next = this.waiters.shift();
+      if (next) {
+        next(this.releaser());
+      } else {
+        this.running--;
+      }
+    };
+  }
+}
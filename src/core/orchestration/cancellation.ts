@@ -0,0 +1,64 @@
+/**
+ * AbortSignal helpers used to cancel stages and pipelines
+ */
+export class Cancellation {
+  /**
+   * Create a controller that also aborts when `parent` aborts.
+   * Call `release` once the child is no longer needed.
+   */
+  static child(parent?: AbortSignal): { controller: AbortController; release: () => void } {
+    const controller = new AbortController();
+    if (!parent) {
+      return { controller, release: () => undefined };
+    }
+
+    const onAbort = () => controller.abort(parent.reason);
+    if (parent.aborted) {
+      controller.abort(parent.reason);
+    } else {
+      parent.addEventListener('abort', onAbort, { once: true });
+    }
+
+    return {
+      controller,
+      release: () => parent.removeEventListener('abort', onAbort),
+    };
+  }
+
+  /**
+   * Settle with the promise, or reject with the abort reason as soon as the
+   * signal aborts - whichever happens first
+   */
+  static race<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(Cancellation.reason(signal));
+
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      promise
+        .then((result) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(result);
+        })
+        .catch((error) => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        });
+    });
+  }
+
+  /**
+   * The abort reason as an Error
+   */
+  static reason(signal: AbortSignal): Error {
+    const reason: unknown = signal.reason;
+    if (reason instanceof Error) {
+      return reason;
+    }
+    return new Error(reason === undefined ? 'Operation aborted' : String(reason));
+  }
+}
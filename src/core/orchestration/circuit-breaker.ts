@@ -0,0 +1,109 @@
+import type { CircuitBreakerPolicy, CircuitState } from './types.js';
+
+/** How an attempt admitted by the breaker ended */
+export type CircuitOutcome = 'success' | 'failure' | 'ignored';
+
+/**
+ * Stops calling a failing stage for a while.
+ *
+ * Closed, it counts consecutive failures and opens at `failureThreshold`.
+ * Open, it rejects every attempt until `openDuration` has passed, then turns
+ * half-open and admits up to `halfOpenProbes` trial attempts. Their success
+ * closes it again; any failure reopens it.
+ */
+export class CircuitBreaker {
+  private current: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private probing = 0;
+  private probesSucceeded = 0;
+
+  constructor(
+    private readonly policy: Required<CircuitBreakerPolicy>,
+    /** Called on every state change */
+    private readonly onChange: (state: CircuitState) => void = () => undefined
+  ) {}
+
+  get state(): CircuitState {
+    return this.current;
+  }
+
+  /**
+   * Milliseconds until an open breaker admits a probe, 0 otherwise
+   */
+  get retryIn(): number {
+    return this.current === 'open'
+      ? Math.max(this.openedAt + this.policy.openDuration - Date.now(), 0)
+      : 0;
+  }
+
+  /**
+   * Admit an attempt, returning the function that records how it ended, or
+   * undefined when the breaker rejects it
+   */
+  acquire(): ((outcome: CircuitOutcome) => void) | undefined {
+    if (this.current === 'open' && this.retryIn === 0) {
+      this.transition('half_open');
+    }
+    if (this.current === 'open') {
+      return undefined;
+    }
+
+    const probe = this.current === 'half_open';
+    if (probe) {
+      if (this.probing >= this.policy.halfOpenProbes) {
+        return undefined;
+      }
+      this.probing++;
+    }
+
+    let recorded = false;
+    return (outcome) => {
+      if (recorded) {
+        return;
+      }
+      recorded = true;
+      if (probe) {
+        this.probing--;
+      }
+      this.record(outcome, probe);
+    };
+  }
+
+  private record(outcome: CircuitOutcome, probe: boolean): void {
+    if (outcome === 'ignored') {
+      return;
+    }
+
+    if (outcome === 'failure') {
+      this.failures++;
+      if (probe || this.failures >= this.policy.failureThreshold) {
+        this.open();
+      }
+      return;
+    }
+
+    this.failures = 0;
+    if (probe && this.current === 'half_open') {
+      this.probesSucceeded++;
+      if (this.probesSucceeded >= this.policy.halfOpenProbes) {
+        this.transition('closed');
+      }
+    }
+  }
+
+  private open(): void {
+    this.openedAt = Date.now();
+    this.transition('open');
+  }
+
+  private transition(state: CircuitState): void {
+    if (state === this.current) {
+      return;
+    }
+    this.current = state;
+    this.failures = 0;
+    this.probesSucceeded = 0;
+    this.onChange(state);
+  }
+}
@@ -0,0 +1,140 @@
+import { Type } from '@sinclair/typebox';
+import { Value } from '@sinclair/typebox/value';
+import { RequestContext } from '@core/context/index.js';
+import { StageRetry } from './retry-policy.js';
+import { Cancellation } from './cancellation.js';
+import { InjectedFaultError } from './types.js';
+import type { FaultInjectionConfig, FaultRule } from './types.js';
+
+/**
+ * Schema of the fault rules, e.g. as JSON in FAULT_INJECTION_RULES
+ */
+export const FaultRulesSchema = Type.Array(
+  Type.Object(
+    {
+      orchestrator: Type.String({ minLength: 1 }),
+      stage: Type.String({ minLength: 1 }),
+      fault: Type.Union([Type.Literal('latency'), Type.Literal('error'), Type.Literal('timeout')]),
+      latency: Type.Optional(Type.Number({ minimum: 0 })),
+      message: Type.Optional(Type.String()),
+      probability: Type.Optional(Type.Number({ minimum: 0, maximum: 1 })),
+    },
+    { additionalProperties: false }
+  )
+);
+
+/**
+ * Request header naming the stages to inject faults into, as comma-separated
+ * `<orchestrator>/<stage>` targets; `*` stands for any name
+ */
+export const FAULT_INJECTION_HEADER = 'x-fault-injection';
+
+/**
+ * Chaos testing: injects latency, errors and timeouts into pipeline stages.
+ *
+ * Disabled until `configure` enables it. A rule hits an attempt of a stage it
+ * names with its `probability`, or always when the current request's
+ * FAULT_INJECTION_HEADER targets the stage.
+ */
+export class FaultInjection {
+  private static config: FaultInjectionConfig = { enabled: false, rules: [] };
+
+  /**
+   * Replace the active configuration. Returns a function that disables
+   * injection again.
+   */
+  static configure(config: FaultInjectionConfig): () => void {
+    FaultInjection.config = config;
+    return () => {
+      if (FaultInjection.config === config) {
+        FaultInjection.config = { enabled: false, rules: [] };
+      }
+    };
+  }
+
+  static get enabled(): boolean {
+    return FaultInjection.config.enabled && FaultInjection.config.rules.length > 0;
+  }
+
+  /**
+   * Parse and validate rules given as JSON, throwing an error that lists
+   * every problem found
+   */
+  static parse(json: string, source = 'fault rules'): FaultRule[] {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch (error) {
+      throw new Error(`Invalid ${source}: ${(error as Error).message}`);
+    }
+
+    if (!Value.Check(FaultRulesSchema, raw)) {
+      const issues = [...Value.Errors(FaultRulesSchema, raw)].map(
+        (error) => `${error.path || '/'}: ${error.message}`
+      );
+      throw new Error(`Invalid ${source}: ${issues.join(', ')}`);
+    }
+    return raw;
+  }
+
+  /**
+   * The rules that hit this attempt of the stage
+   */
+  static select(orchestrator: string, stage: string): FaultRule[] {
+    if (!FaultInjection.enabled) {
+      return [];
+    }
+
+    const targets = RequestContext.get()?.faults ?? [];
+    return FaultInjection.config.rules.filter((rule) => {
+      if (!matches(rule.orchestrator, orchestrator) || !matches(rule.stage, stage)) {
+        return false;
+      }
+      const targeted = targets.some((target) => {
+        const [targetOrchestrator = '', targetStage = '*'] = target.split('/');
+        return matches(targetOrchestrator, orchestrator) && matches(targetStage, stage);
+      });
+      return targeted || Math.random() < (rule.probability ?? 0);
+    });
+  }
+
+  /**
+   * Apply the faults in order: latency waits, a timeout waits until the
+   * signal aborts and an error is thrown as an InjectedFaultError. Without a
+   * signal nothing would end the wait, so a timeout fails at once.
+   */
+  static async apply(rules: FaultRule[], stage: string, signal?: AbortSignal): Promise<void> {
+    for (const rule of rules) {
+      if (rule.fault === 'latency') {
+        await StageRetry.wait(rule.latency ?? 1000, signal);
+      } else if (rule.fault === 'timeout') {
+        await untilAborted(stage, signal);
+      } else {
+        throw new InjectedFaultError(stage, rule.message);
+      }
+    }
+  }
+}
+
+function untilAborted(stage: string, signal?: AbortSignal): Promise<never> {
+  return new Promise((_resolve, reject) => {
+    if (!signal) {
+      reject(new InjectedFaultError(stage, `Injected timeout in stage '${stage}'`));
+      return;
+    }
+    if (signal.aborted) {
+      reject(Cancellation.reason(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      signal.removeEventListener('abort', onAbort);
+      reject(Cancellation.reason(signal));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function matches(pattern: string, name: string): boolean {
+  return pattern === '*' || pattern === name;
+}
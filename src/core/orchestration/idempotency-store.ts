@@ -0,0 +1,74 @@
+import type { Prisma, PrismaClient } from '@prisma/client';
+import type { IdempotencyRecord, IdempotencyStore } from './types.js';
+
+// Prisma error code for a unique constraint violation
+const UNIQUE_VIOLATION = 'P2002';
+
+/**
+ * Idempotency store backed by the `idempotency_keys` table.
+ *
+ * Claims and results share one row per scope and key; `expiresAt` is the
+ * lease of an in-progress run or the TTL of a stored result. Expired rows are
+ * purged whenever a key is claimed.
+ */
+export class PrismaIdempotencyStore implements IdempotencyStore {
+  constructor(private prisma: PrismaClient) {}
+
+  async claim(
+    scope: string,
+    key: string,
+    leaseMs: number,
+    fingerprint: string
+  ): Promise<IdempotencyRecord | undefined> {
+    const now = new Date();
+    await this.prisma.idempotencyKey.deleteMany({ where: { expiresAt: { lte: now } } });
+
+    try {
+      await this.prisma.idempotencyKey.create({
+        data: {
+          scope,
+          key,
+          status: 'in_progress',
+          fingerprint,
+          expiresAt: new Date(now.getTime() + leaseMs),
+        },
+      });
+      return undefined;
+    } catch (error) {
+      if ((error as { code?: unknown } | null)?.code !== UNIQUE_VIOLATION) {
+        throw error;
+      }
+    }
+
+    const existing = await this.prisma.idempotencyKey.findUnique({
+      where: { scope_key: { scope, key } },
+    });
+
+    // Released between our insert and read: report it as still in progress
+    if (!existing) {
+      return { status: 'in_progress', fingerprint };
+    }
+
+    return {
+      status: existing.status as IdempotencyRecord['status'],
+      data: (existing.result as { data?: unknown } | null)?.data,
+      fingerprint: existing.fingerprint ?? undefined,
+    };
+  }
+
+  async complete(scope: string, key: string, data: unknown, ttlMs: number): Promise<void> {
+    await this.prisma.idempotencyKey.update({
+      where: { scope_key: { scope, key } },
+      data: {
+        status: 'completed',
+        // Wrapped so that results without data still store a JSON object
+        result: JSON.parse(JSON.stringify({ data })) as Prisma.InputJsonObject,
+        expiresAt: new Date(Date.now() + ttlMs),
+      },
+    });
+  }
+
+  async release(scope: string, key: string): Promise<void> {
+    await this.prisma.idempotencyKey.deleteMany({ where: { scope, key } });
+  }
+}
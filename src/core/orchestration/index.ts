@@ -4,13 +4,81 @@
 export { BaseOrchestrator } from './base-orchestrator.js';
 export { PerformanceInterceptor } from './performance-interceptor.js';
 export { DefaultPerformanceTracker, NullPerformanceTracker } from './performance-tracker.js';
+export { performanceMiddleware } from './performance-middleware.js';
+export { OrchestratorRegistry } from './orchestrator-registry.js';
+export type { DescribableOrchestrator } from './orchestrator-registry.js';
+export { PipelineGraph } from './pipeline-graph.js';
+export { NestedOrchestration } from './nested-orchestration.js';
+export { RunEventHub, RunEventStream } from './run-events.js';
+export { Bulkhead } from './bulkhead.js';
+export { CircuitBreaker } from './circuit-breaker.js';
+export type { CircuitOutcome } from './circuit-breaker.js';
+export { FAULT_INJECTION_HEADER, FaultInjection, FaultRulesSchema } from './fault-injection.js';
+export type { NestableOrchestrator } from './nested-orchestration.js';
+export { PipelineCatalog, PipelineConfigLoader, PipelineConfigSchema } from './pipeline-config.js';
+export type { PipelineConfig } from './pipeline-config.js';
+export { StageRetry } from './retry-policy.js';
+export { DEFAULT_REDACTED_FIELDS, OrchestratorLogging } from './orchestrator-logging.js';
+export { Cancellation } from './cancellation.js';
+export { PrismaIdempotencyStore } from './idempotency-store.js';
+export { PrismaRunStore } from './run-store.js';
+export { PrismaTransactionRunner } from './transaction-runner.js';
+export {
+  CircuitOpenError,
+  OrchestratorError,
+  OrchestratorTimeoutError,
+  IdempotencyConflictError,
+  IdempotencyMismatchError,
+  InjectedFaultError,
+  NestedOrchestratorError,
+  OrchestratorOverloadError,
+  OrchestratorValidationError,
+  PipelineConfigError,
+} from './types.js';
 export type {
   PerformanceTracker,
+  PerformanceSample,
   BasePipelineContext,
   OperationContext,
   PipelineOperation,
   PipelineStage,
   OrchestratorConfig,
+  OrchestratorInfo,
+  OrchestratorStats,
+  PipelineStageInfo,
+  OrchestratorMiddleware,
   OrchestratorResult,
-  OrchestratorError,
+  RetryPolicy,
+  StageCompensation,
+  CompensationReport,
+  DurabilityConfig,
+  ExecuteOptions,
+  FaultInjectionConfig,
+  FaultKind,
+  FaultRule,
+  BatchContext,
+  BatchOptions,
+  BatchResult,
+  BatchSummary,
+  CircuitBreakerInfo,
+  CircuitBreakerPolicy,
+  CircuitState,
+  IdempotencyConfig,
+  IdempotencyRecord,
+  IdempotencyStore,
+  LoggingConfig,
+  StageCondition,
+  StageDescriptor,
+  StageFallback,
+  StageOutcome,
+  StageReport,
+  RunStore,
+  StoredRun,
+  TransactionRunner,
+  NestedRunReport,
+  NestedStageOptions,
+  RunEvent,
+  RunEventSink,
+  RunEventType,
+  ValidationIssue,
 } from './types.js';
@@ -0,0 +1,89 @@
+import { NestedOrchestratorError } from './types.js';
+import type {
+  ExecuteOptions,
+  NestedRunReport,
+  NestedStageOptions,
+  OperationContext,
+  OrchestratorResult,
+  PipelineStage,
+} from './types.js';
+
+/**
+ * What a stage needs of the orchestrator it nests
+ */
+export interface NestableOrchestrator<TInput, TResult> {
+  execute(input: TInput, options?: ExecuteOptions): Promise<OrchestratorResult<TResult>>;
+  getName(): string;
+}
+
+/**
+ * Reports of nested runs, keyed by the context the stage returned, until the
+ * parent orchestrator picks them up
+ */
+const pendingReports = new WeakMap<object, NestedRunReport>();
+
+/**
+ * Runs orchestrators as stages of other orchestrators
+ */
+export class NestedOrchestration {
+  /**
+   * Build a stage that executes `child`. The child inherits the parent's
+   * requestId and abort signal, and what is left of the stage's deadline as
+   * its timeout. A failed child fails the stage.
+   */
+  static stage<TContext extends OperationContext, TInput, TResult>(
+    child: NestableOrchestrator<TInput, TResult>,
+    { input, output, ...stage }: NestedStageOptions<TContext, TInput, TResult>
+  ): PipelineStage<TContext> {
+    return {
+      ...stage,
+      operation: async (context) => {
+        const result = await child.execute(input(context), {
+          signal: context.signal,
+          requestId: context.requestId,
+          ...(context.deadline !== undefined && {
+            timeout: Math.max(context.deadline - Date.now(), 1),
+          }),
+        });
+        const report = NestedOrchestration.summarize(child.getName(), result);
+
+        // Child timings appear in the parent's metrics as `<stage>.<child metric>`
+        for (const [key, value] of Object.entries(result.metrics ?? {})) {
+          context.perfTracker?.track(`${stage.name}.${key}`, value);
+        }
+
+        if (!result.success) {
+          throw new NestedOrchestratorError(report, result.error);
+        }
+
+        const next = (output && output(context, result.data as TResult)) || context;
+        pendingReports.set(next, report);
+        return next;
+      },
+    };
+  }
+
+  /**
+   * Remove and return the nested run report left on a stage's output
+   */
+  static take(context: object): NestedRunReport | undefined {
+    const report = pendingReports.get(context);
+    pendingReports.delete(context);
+    return report;
+  }
+
+  private static summarize(
+    orchestrator: string,
+    result: OrchestratorResult<unknown>
+  ): NestedRunReport {
+    return {
+      orchestrator,
+      success: result.success,
+      duration: result.duration,
+      stages: result.stages,
+      ...(result.metrics && { metrics: result.metrics }),
+      ...(result.runId && { runId: result.runId }),
+      ...(result.deferred && { deferred: result.deferred }),
+    };
+  }
+}
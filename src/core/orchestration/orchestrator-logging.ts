@@ -0,0 +1,71 @@
+/**
+ * Orchestrator Logging - structured pino logs
+ *
+ * Orchestrators log through a pino child logger. Values taken from the run
+ * (input, context checkpoints) pass through `redact` first so secrets never
+ * reach the log.
+ */
+
+import type { Logger } from 'pino';
+import { createLogger } from '@utils/logger.js';
+import type { LoggingConfig } from './types.js';
+
+/** Masked unless `logging.redact` says otherwise */
+export const DEFAULT_REDACTED_FIELDS = [
+  'password',
+  'token',
+  'accessToken',
+  'refreshToken',
+  'secret',
+  'apiKey',
+  'authorization',
+];
+
+const REDACTED = '[Redacted]';
+
+export class OrchestratorLogging {
+  /**
+   * The orchestrator's logger: the configured one or a `createLogger`
+   * child, bound to the orchestrator name and set to the configured level
+   */
+  static create(name: string, config: LoggingConfig = {}): Logger {
+    const base = config.logger ? config.logger.child({ module: name }) : createLogger(name);
+    return config.level ? base.child({}, { level: config.level }) : base;
+  }
+
+  /**
+   * Copy `value`, replacing the value of every key named in `fields`
+   * (case-insensitive) at any depth. Only plain objects and arrays are
+   * copied; other objects are kept as they are.
+   */
+  static redact(value: unknown, fields: ReadonlySet<string>): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => OrchestratorLogging.redact(item, fields));
+    }
+    if (!OrchestratorLogging.isPlainObject(value)) {
+      return value;
+    }
+
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        fields.has(key.toLowerCase()) ? REDACTED : OrchestratorLogging.redact(entry, fields),
+      ])
+    );
+  }
+
+  /**
+   * Normalize field names for `redact`
+   */
+  static fields(names: string[] = DEFAULT_REDACTED_FIELDS): ReadonlySet<string> {
+    return new Set(names.map((name) => name.toLowerCase()));
+  }
+
+  private static isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (typeof value !== 'object' || value === null) {
+      return false;
+    }
+    const prototype: unknown = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+  }
+}
@@ -40,11 +40,114 @@ export const OrchestratorMetrics = {
   }),
 
   /**
-   * Track pipeline errors
+   * Track pipeline errors; `injected` is 'true' when fault injection caused them
    */
   pipelineErrors: new promClient.Counter({
     name: 'orchestrator_pipeline_errors_total',
     help: 'Total number of pipeline errors',
+    labelNames: ['service', 'stage', 'injected'],
+  }),
+
+  /**
+   * Track stage retries (attempts after the first)
+   */
+  stageRetries: new promClient.Counter({
+    name: 'orchestrator_stage_retries_total',
+    help: 'Total number of pipeline stage retries',
+    labelNames: ['service', 'stage'],
+  }),
+
+  /**
+   * Track saga compensations after failed pipelines
+   */
+  compensations: new promClient.Counter({
+    name: 'orchestrator_compensations_total',
+    help: 'Total number of stage compensations run after a failed pipeline',
+    labelNames: ['service', 'stage', 'status'],
+  }),
+
+  /**
+   * Track how each stage ended: success, failed or skipped. `injected` is
+   * 'true' for stages hit by fault injection.
+   */
+  stageOutcomes: new promClient.Counter({
+    name: 'orchestrator_stage_outcomes_total',
+    help: 'Total number of pipeline stage executions by outcome',
+    labelNames: ['service', 'stage', 'outcome', 'injected'],
+  }),
+
+  /**
+   * Track runs waiting for a concurrency slot
+   */
+  queuedOperations: new promClient.Gauge({
+    name: 'orchestrator_queued_operations',
+    help: 'Number of orchestrator runs waiting for a concurrency slot',
+    labelNames: ['service'],
+  }),
+
+  /**
+   * Track how long runs wait for a concurrency slot
+   */
+  queueWait: new promClient.Histogram({
+    name: 'orchestrator_queue_wait_ms',
+    help: 'Time orchestrator runs spend waiting for a concurrency slot',
+    labelNames: ['service'],
+    buckets: [1, 2.5, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000],
+  }),
+
+  /**
+   * Track runs turned away because the queue was full
+   */
+  rejections: new promClient.Counter({
+    name: 'orchestrator_rejected_total',
+    help: 'Total number of orchestrator runs rejected due to overload',
+    labelNames: ['service'],
+  }),
+
+  /**
+   * Track how long transaction groups hold their transaction open
+   */
+  transactionDuration: new promClient.Histogram({
+    name: 'orchestrator_transaction_duration_ms',
+    help: 'Duration of transactions opened for pipeline stage groups',
+    labelNames: ['service', 'transaction', 'status'],
+    buckets: [1, 2.5, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000],
+  }),
+
+  /**
+   * Track the items of executeMany batches by outcome
+   */
+  batchItems: new promClient.Counter({
+    name: 'orchestrator_batch_items_total',
+    help: 'Total number of executeMany items by status',
+    labelNames: ['service', 'status'],
+  }),
+
+  /**
+   * Track how long whole executeMany batches take
+   */
+  batchDuration: new promClient.Histogram({
+    name: 'orchestrator_batch_duration_ms',
+    help: 'Duration of executeMany batches',
+    labelNames: ['service'],
+    buckets: [10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000],
+  }),
+
+  /**
+   * Track stage circuit breakers: 0 closed, 1 half-open, 2 open
+   */
+  circuitState: new promClient.Gauge({
+    name: 'orchestrator_circuit_state',
+    help: 'State of pipeline stage circuit breakers (0 closed, 1 half-open, 2 open)',
     labelNames: ['service', 'stage'],
   }),
+
+  /**
+   * Track faults injected for chaos testing, kept apart from real failures
+   */
+  injectedFaults: new promClient.Counter({
+    name: 'orchestrator_injected_faults_total',
+    help: 'Total number of faults injected into pipeline stages',
+    labelNames: ['service', 'stage', 'fault'],
+  }),
 };
@@ -0,0 +1,125 @@
+import { OrchestratorMetrics } from './orchestrator-metrics.js';
+import type {
+  CircuitBreakerInfo,
+  OrchestratorInfo,
+  OrchestratorStats,
+  StageOutcome,
+} from './types.js';
+
+/**
+ * What the registry needs from an orchestrator
+ */
+export interface DescribableOrchestrator {
+  getName(): string;
+  describe(): OrchestratorInfo;
+  circuitBreakers(): CircuitBreakerInfo[];
+}
+
+/**
+ * Registry of every orchestrator constructed in this process.
+ *
+ * BaseOrchestrator registers itself on construction; the most recently
+ * constructed instance of a name wins.
+ */
+export class OrchestratorRegistry {
+  private static orchestrators = new Map<string, DescribableOrchestrator>();
+
+  static register(orchestrator: DescribableOrchestrator): void {
+    OrchestratorRegistry.orchestrators.set(orchestrator.getName(), orchestrator);
+  }
+
+  static unregister(name: string): void {
+    OrchestratorRegistry.orchestrators.delete(name);
+  }
+
+  /**
+   * Describe every registered orchestrator, ordered by name
+   */
+  static list(): OrchestratorInfo[] {
+    return [...OrchestratorRegistry.orchestrators.values()]
+      .map((orchestrator) => orchestrator.describe())
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  static get(name: string): OrchestratorInfo | undefined {
+    return OrchestratorRegistry.orchestrators.get(name)?.describe();
+  }
+
+  /**
+   * Stage circuit breakers of every registered orchestrator, ordered by
+   * orchestrator name
+   */
+  static circuitBreakers(): CircuitBreakerInfo[] {
+    return [...OrchestratorRegistry.orchestrators.values()]
+      .sort((a, b) => a.getName().localeCompare(b.getName()))
+      .flatMap((orchestrator) => orchestrator.circuitBreakers());
+  }
+
+  /**
+   * Read the live metrics of one orchestrator
+   */
+  static async getStats(name: string): Promise<OrchestratorStats> {
+    const [active, queued, durations, latencies, outcomes] = await Promise.all([
+      OrchestratorMetrics.activeOperations.get(),
+      OrchestratorMetrics.queuedOperations.get(),
+      OrchestratorMetrics.pipelineDuration.get(),
+      OrchestratorMetrics.stageLatency.get(),
+      OrchestratorMetrics.stageOutcomes.get(),
+    ]);
+    const isMine = (labels: Partial<Record<string, string | number>>) => labels.service === name;
+
+    const stats: OrchestratorStats = {
+      activeOperations: active.values.find((entry) => isMine(entry.labels))?.value ?? 0,
+      queuedOperations: queued.values.find((entry) => isMine(entry.labels))?.value ?? 0,
+      runs: { success: 0, error: 0 },
+      averageDuration: null,
+      stages: {},
+    };
+
+    let durationSum = 0;
+    for (const entry of durations.values) {
+      if (!isMine(entry.labels)) {
+        continue;
+      }
+      if (entry.metricName?.endsWith('_count')) {
+        stats.runs[entry.labels.status === 'success' ? 'success' : 'error'] += entry.value;
+      } else if (entry.metricName?.endsWith('_sum')) {
+        durationSum += entry.value;
+      }
+    }
+    const runCount = stats.runs.success + stats.runs.error;
+    stats.averageDuration = runCount > 0 ? durationSum / runCount : null;
+
+    const stageFor = (stage: string) =>
+      (stats.stages[stage] ??= { averageLatency: null, outcomes: {} });
+
+    for (const entry of outcomes.values) {
+      if (isMine(entry.labels)) {
+        // Injected and real outcomes are separate series of the same outcome
+        const outcome = entry.labels.outcome as StageOutcome;
+        const counts = stageFor(String(entry.labels.stage)).outcomes;
+        counts[outcome] = (counts[outcome] ?? 0) + entry.value;
+      }
+    }
+
+    const latency = new Map<string, { sum: number; count: number }>();
+    for (const entry of latencies.values) {
+      if (!isMine(entry.labels)) {
+        continue;
+      }
+      const stage = String(entry.labels.stage);
+      const totals = latency.get(stage) ?? { sum: 0, count: 0 };
+      if (entry.metricName?.endsWith('_count')) {
+        totals.count += entry.value;
+      } else if (entry.metricName?.endsWith('_sum')) {
+        totals.sum += entry.value;
+      }
+      latency.set(stage, totals);
+    }
+    for (const [stage, { sum, count }] of latency) {
+      stageFor(stage).averageLatency = count > 0 ? sum / count : null;
+    }
+
+    return stats;
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Orchestrator Tracing - OpenTelemetry Integration
+ *
+ * Spans are created through the global OpenTelemetry API. Without a
+ * registered tracer provider (see plugins/tracing.ts) they are no-ops.
+ */
+
+import { SpanStatusCode, trace } from '@opentelemetry/api';
+import type { Attributes, Span } from '@opentelemetry/api';
+import type { StageReport } from './types.js';
+
+export class OrchestratorTracing {
+  /**
+   * Run `fn` inside a new active span, ending it when `fn` settles
+   */
+  static async inSpan<T>(
+    name: string,
+    attributes: Attributes,
+    fn: (span: Span) => Promise<T>
+  ): Promise<T> {
+    // Resolved per call so a provider registered after import is picked up
+    const tracer = trace.getTracer('orchestration');
+    return tracer.startActiveSpan(name, { attributes }, async (span) => {
+      try {
+        return await fn(span);
+      } catch (error) {
+        OrchestratorTracing.recordError(span, error);
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Mark a span as failed
+   */
+  static recordError(span: Span, error: unknown): void {
+    const exception = error instanceof Error ? error : new Error(String(error));
+    span.recordException(exception);
+    span.setStatus({ code: SpanStatusCode.ERROR, message: exception.message });
+  }
+
+  /**
+   * Copy a stage report onto its span
+   */
+  static recordStage(span: Span, report: StageReport): void {
+    span.setAttributes({
+      'orchestrator.stage.status': report.status,
+      'orchestrator.stage.attempts': report.attempts,
+      'orchestrator.stage.duration_ms': report.duration,
+      ...(report.injected && { 'orchestrator.stage.injected_faults': report.injected }),
+    });
+
+    if (report.error) {
+      OrchestratorTracing.recordError(span, report.error);
+    }
+  }
+}
@@ -12,11 +12,11 @@ export class PerformanceInterceptor {
     operationName: string
   ): PipelineOperation<TContext> {
     return async (context: TContext): Promise<TContext> => {
-      const startTime = Date.now();
+      const startTime = performance.now();
 
       try {
         const result = await operation(context);
-        const duration = Date.now() - startTime;
+        const duration = performance.now() - startTime;
 
         // Track performance if tracker is available
         if (context.perfTracker) {
@@ -25,7 +25,7 @@ export class PerformanceInterceptor {
 
         return result;
       } catch (error) {
-        const duration = Date.now() - startTime;
+        const duration = performance.now() - startTime;
 
         // Track performance even on error
         if (context.perfTracker) {
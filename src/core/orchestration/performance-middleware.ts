@@ -0,0 +1,27 @@
+import type { OrchestratorMiddleware } from './types.js';
+
+/**
+ * Built-in middleware that feeds stage timings into the context's
+ * PerformanceTracker. Every orchestrator runs it before any other middleware.
+ */
+export const performanceMiddleware: OrchestratorMiddleware = {
+  name: 'performance',
+
+  afterStage(context, stage, report) {
+    if (report.status !== 'success') {
+      return;
+    }
+
+    context.perfTracker?.track(stage.name, report.duration);
+    if (stage.retry) {
+      context.perfTracker?.recordAttempts?.(stage.name, report.attempts);
+    }
+  },
+
+  onStageError(context, stage, _error, report) {
+    context.perfTracker?.track(`${stage.name}_error`, report.duration);
+    if (stage.retry) {
+      context.perfTracker?.recordAttempts?.(stage.name, report.attempts);
+    }
+  },
+};
@@ -1,26 +1,70 @@
-import { PerformanceTracker } from './types.js';
+import { PerformanceSample, PerformanceTracker } from './types.js';
 
 /**
- * Default implementation of PerformanceTracker
+ * Default implementation of PerformanceTracker, timing with `performance.now()`
+ * so sub-millisecond stages are not reported as 0
  */
 export class DefaultPerformanceTracker implements PerformanceTracker {
-  private metrics: Record<string, number> = {};
+  private samples: Record<string, PerformanceSample> = {};
+  private attempts: Record<string, number> = {};
   private startTime: number;
 
   constructor() {
-    this.startTime = Date.now();
+    this.startTime = performance.now();
   }
 
   track(stage: string, duration: number): void {
-    this.metrics[stage] = duration;
+    const sample = this.samples[stage];
+    if (!sample) {
+      this.samples[stage] = {
+        count: 1,
+        total: duration,
+        min: duration,
+        max: duration,
+        last: duration,
+      };
+      return;
+    }
+
+    sample.count++;
+    sample.total += duration;
+    sample.min = Math.min(sample.min, duration);
+    sample.max = Math.max(sample.max, duration);
+    sample.last = duration;
+  }
+
+  recordAttempts(stage: string, attempts: number): void {
+    this.attempts[`${stage}_attempts`] = attempts;
+  }
+
+  async time<T>(name: string, fn: () => T | Promise<T>): Promise<T> {
+    const start = performance.now();
+    try {
+      const result = await fn();
+      this.track(name, performance.now() - start);
+      return result;
+    } catch (error) {
+      this.track(`${name}_error`, performance.now() - start);
+      throw error;
+    }
   }
 
   getMetrics(): Record<string, number> {
-    return { ...this.metrics };
+    const metrics: Record<string, number> = {};
+    for (const [name, sample] of Object.entries(this.samples)) {
+      metrics[name] = sample.last;
+    }
+    return { ...metrics, ...this.attempts };
+  }
+
+  getSamples(): Record<string, PerformanceSample> {
+    return Object.fromEntries(
+      Object.entries(this.samples).map(([name, sample]) => [name, { ...sample }])
+    );
   }
 
   getTotalDuration(): number {
-    return Date.now() - this.startTime;
+    return performance.now() - this.startTime;
   }
 }
 
@@ -32,10 +76,22 @@ export class NullPerformanceTracker implements PerformanceTracker {
     // No-op
   }
 
+  recordAttempts(_stage: string, _attempts: number): void {
+    // No-op
+  }
+
+  async time<T>(_name: string, fn: () => T | Promise<T>): Promise<T> {
+    return fn();
+  }
+
   getMetrics(): Record<string, number> {
     return {};
   }
 
+  getSamples(): Record<string, PerformanceSample> {
+    return {};
+  }
+
   getTotalDuration(): number {
     return 0;
   }
@@ -0,0 +1,254 @@
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { Type } from '@sinclair/typebox';
+import type { Static } from '@sinclair/typebox';
+import { Value } from '@sinclair/typebox/value';
+import { parse as parseYaml } from 'yaml';
+import { PipelineConfigError } from './types.js';
+import type {
+  OperationContext,
+  PipelineOperation,
+  PipelineStage,
+  RetryPolicy,
+  StageCompensation,
+  StageCondition,
+  StageFallback,
+} from './types.js';
+
+const RetrySchema = Type.Object(
+  {
+    maxAttempts: Type.Integer({ minimum: 1 }),
+    initialDelay: Type.Optional(Type.Number({ minimum: 0 })),
+    multiplier: Type.Optional(Type.Number({ minimum: 1 })),
+    maxDelay: Type.Optional(Type.Number({ minimum: 0 })),
+    jitter: Type.Optional(Type.Number({ minimum: 0, maximum: 1 })),
+    /** Name of a retry predicate registered in the catalog */
+    retryOn: Type.Optional(Type.String()),
+  },
+  { additionalProperties: false }
+);
+
+const CircuitBreakerSchema = Type.Object(
+  {
+    failureThreshold: Type.Optional(Type.Integer({ minimum: 1 })),
+    openDuration: Type.Optional(Type.Number({ minimum: 0 })),
+    halfOpenProbes: Type.Optional(Type.Integer({ minimum: 1 })),
+  },
+  { additionalProperties: false }
+);
+
+const StageSchema = Type.Object(
+  {
+    name: Type.String({ minLength: 1 }),
+    /** Name of an operation registered in the catalog */
+    operation: Type.String({ minLength: 1 }),
+    critical: Type.Optional(Type.Boolean()),
+    timeout: Type.Optional(Type.Number({ exclusiveMinimum: 0 })),
+    dependsOn: Type.Optional(Type.Array(Type.String())),
+    retry: Type.Optional(RetrySchema),
+    /** Name of a condition registered in the catalog */
+    when: Type.Optional(Type.String()),
+    /** Name of a compensation registered in the catalog */
+    compensate: Type.Optional(Type.String()),
+    /** Name of a fallback registered in the catalog */
+    fallback: Type.Optional(Type.String()),
+    circuitBreaker: Type.Optional(CircuitBreakerSchema),
+    mode: Type.Optional(Type.Union([Type.Literal('inline'), Type.Literal('deferred')])),
+    transaction: Type.Optional(Type.String({ minLength: 1 })),
+  },
+  { additionalProperties: false }
+);
+
+const StageOverrideSchema = Type.Object(
+  {
+    critical: Type.Optional(Type.Boolean()),
+    timeout: Type.Optional(Type.Number({ exclusiveMinimum: 0 })),
+    retry: Type.Optional(RetrySchema),
+    circuitBreaker: Type.Optional(CircuitBreakerSchema),
+    mode: Type.Optional(Type.Union([Type.Literal('inline'), Type.Literal('deferred')])),
+  },
+  { additionalProperties: false }
+);
+
+/**
+ * Schema of a pipeline file. `environments.<name>.stages.<stage>` overrides
+ * settings of a stage when running in that environment.
+ */
+export const PipelineConfigSchema = Type.Object(
+  {
+    stages: Type.Array(StageSchema, { minItems: 1 }),
+    environments: Type.Optional(
+      Type.Record(
+        Type.String(),
+        Type.Object(
+          { stages: Type.Record(Type.String(), StageOverrideSchema) },
+          { additionalProperties: false }
+        )
+      )
+    ),
+  },
+  { additionalProperties: false }
+);
+
+export type PipelineConfig = Static<typeof PipelineConfigSchema>;
+
+type RetryPredicate = NonNullable<RetryPolicy['retryOn']>;
+
+/**
+ * Named building blocks that pipeline files refer to
+ */
+export class PipelineCatalog<TContext extends OperationContext> {
+  private operations = new Map<string, PipelineOperation<TContext>>();
+  private conditions = new Map<string, StageCondition<TContext>>();
+  private compensations = new Map<string, StageCompensation<TContext>>();
+  private fallbacks = new Map<string, StageFallback<TContext>>();
+  private retryPredicates = new Map<string, RetryPredicate>();
+
+  operation(name: string, operation: PipelineOperation<TContext>): this {
+    this.operations.set(name, operation);
+    return this;
+  }
+
+  condition(name: string, condition: StageCondition<TContext>): this {
+    this.conditions.set(name, condition);
+    return this;
+  }
+
+  compensation(name: string, compensation: StageCompensation<TContext>): this {
+    this.compensations.set(name, compensation);
+    return this;
+  }
+
+  fallback(name: string, fallback: StageFallback<TContext>): this {
+    this.fallbacks.set(name, fallback);
+    return this;
+  }
+
+  retryPredicate(name: string, predicate: RetryPredicate): this {
+    this.retryPredicates.set(name, predicate);
+    return this;
+  }
+
+  /**
+   * Turn validated config into pipeline stages, collecting every unknown name
+   */
+  resolve(config: PipelineConfig, source: string): PipelineStage<TContext>[] {
+    const issues: string[] = [];
+    const lookup = <T>(kind: string, registry: Map<string, T>, stage: string, name: string) => {
+      const entry = registry.get(name);
+      if (!entry) {
+        issues.push(`stage '${stage}' references unknown ${kind} '${name}'`);
+      }
+      return entry;
+    };
+
+    const stages = config.stages.map(
+      ({ operation, when, compensate, fallback, retry, ...stage }) => {
+        const resolved: PipelineStage<TContext> = {
+          ...stage,
+          operation: lookup(
+            'operation',
+            this.operations,
+            stage.name,
+            operation
+          ) as PipelineOperation<TContext>,
+        };
+
+        if (when) {
+          resolved.when = lookup('condition', this.conditions, stage.name, when);
+        }
+        if (compensate) {
+          resolved.compensate = lookup('compensation', this.compensations, stage.name, compensate);
+        }
+        if (fallback) {
+          resolved.fallback = lookup('fallback', this.fallbacks, stage.name, fallback);
+        }
+        if (retry) {
+          const { retryOn, ...policy } = retry;
+          resolved.retry = {
+            ...policy,
+            ...(retryOn && {
+              retryOn: lookup('retry predicate', this.retryPredicates, stage.name, retryOn),
+            }),
+          };
+        }
+
+        return resolved;
+      }
+    );
+
+    if (issues.length > 0) {
+      throw new PipelineConfigError(source, issues);
+    }
+
+    return stages;
+  }
+}
+
+/**
+ * Loads pipeline definitions from JSON or YAML files
+ */
+export class PipelineConfigLoader {
+  /**
+   * Read, validate and resolve a pipeline file. Relative paths are resolved
+   * from the working directory. Throws a PipelineConfigError describing every
+   * problem found.
+   */
+  static load<TContext extends OperationContext>(
+    filePath: string,
+    catalog: PipelineCatalog<TContext>,
+    environment = process.env.NODE_ENV ?? 'development'
+  ): PipelineStage<TContext>[] {
+    let raw: unknown;
+    try {
+      const content = readFileSync(filePath, 'utf-8');
+      raw = extname(filePath) === '.json' ? JSON.parse(content) : parseYaml(content);
+    } catch (error) {
+      throw new PipelineConfigError(filePath, [(error as Error).message]);
+    }
+
+    return PipelineConfigLoader.parse(raw, catalog, environment, filePath);
+  }
+
+  /**
+   * Validate and resolve an already parsed pipeline definition
+   */
+  static parse<TContext extends OperationContext>(
+    raw: unknown,
+    catalog: PipelineCatalog<TContext>,
+    environment: string,
+    source = 'pipeline config'
+  ): PipelineStage<TContext>[] {
+    if (!Value.Check(PipelineConfigSchema, raw)) {
+      const issues = [...Value.Errors(PipelineConfigSchema, raw)].map(
+        (error) => `${error.path || '/'}: ${error.message}`
+      );
+      throw new PipelineConfigError(source, issues);
+    }
+
+    return catalog.resolve(PipelineConfigLoader.applyOverrides(raw, environment, source), source);
+  }
+
+  /**
+   * Merge the overrides of `environment` into the stages they name
+   */
+  private static applyOverrides(
+    config: PipelineConfig,
+    environment: string,
+    source: string
+  ): PipelineConfig {
+    const overrides = config.environments?.[environment]?.stages ?? {};
+    const names = new Set(config.stages.map((stage) => stage.name));
+    const unknown = Object.keys(overrides).filter((name) => !names.has(name));
+    if (unknown.length > 0) {
+      throw new PipelineConfigError(
+        source,
+        unknown.map((name) => `environment '${environment}' overrides unknown stage '${name}'`)
+      );
+    }
+
+    return {
+      stages: config.stages.map((stage) => ({ ...stage, ...overrides[stage.name] })),
+    };
+  }
+}
@@ -0,0 +1,124 @@
+import { OrchestratorError } from './types.js';
+import type { OperationContext, PipelineStage } from './types.js';
+
+/**
+ * Resolves a pipeline into execution levels based on stage dependencies.
+ *
+ * A stage without `dependsOn` depends on the stage declared before it, so a
+ * plain array keeps running sequentially. `dependsOn: []` marks a root stage.
+ * Stages in the same level have no dependency on each other and run
+ * concurrently.
+ */
+export class PipelineGraph {
+  /**
+   * Build execution levels, rejecting unknown dependencies, cycles, inline
+   * stages that depend on deferred ones and transaction groups that are not
+   * consecutive
+   */
+  static resolve<TContext extends OperationContext>(
+    pipeline: PipelineStage<TContext>[]
+  ): PipelineStage<TContext>[][] {
+    const stages = new Map<string, PipelineStage<TContext>>();
+    const dependencies = new Map<string, string[]>();
+
+    pipeline.forEach((stage, index) => {
+      if (stages.has(stage.name)) {
+        throw new OrchestratorError(`Duplicate pipeline stage '${stage.name}'`, stage.name);
+      }
+      stages.set(stage.name, stage);
+
+      const previous = index > 0 ? pipeline[index - 1] : undefined;
+      dependencies.set(stage.name, stage.dependsOn ?? (previous ? [previous.name] : []));
+
+      if (stage.transaction && stage.mode === 'deferred') {
+        throw new OrchestratorError(
+          `Deferred stage '${stage.name}' cannot join transaction '${stage.transaction}'`,
+          stage.name
+        );
+      }
+    });
+
+    for (const [name, deps] of dependencies) {
+      for (const dep of deps) {
+        const dependency = stages.get(dep);
+        if (!dependency) {
+          throw new OrchestratorError(`Stage '${name}' depends on unknown stage '${dep}'`, name);
+        }
+        if (dependency.mode === 'deferred' && stages.get(name)?.mode !== 'deferred') {
+          throw new OrchestratorError(
+            `Stage '${name}' cannot depend on deferred stage '${dep}'`,
+            name
+          );
+        }
+      }
+    }
+
+    const levels: PipelineStage<TContext>[][] = [];
+    const resolved = new Set<string>();
+    let remaining = pipeline;
+
+    while (remaining.length > 0) {
+      const level = remaining.filter((stage) =>
+        (dependencies.get(stage.name) ?? []).every((dep) => resolved.has(dep))
+      );
+
+      if (level.length === 0) {
+        const names = remaining.map((stage) => stage.name).join(', ');
+        throw new OrchestratorError(
+          `Cyclic stage dependencies detected between: ${names}`,
+          remaining[0]?.name ?? 'unknown'
+        );
+      }
+
+      level.forEach((stage) => resolved.add(stage.name));
+      remaining = remaining.filter((stage) => !resolved.has(stage.name));
+      levels.push(level);
+    }
+
+    PipelineGraph.checkTransactions(levels);
+    return levels;
+  }
+
+  /**
+   * A transaction group must occupy consecutive levels on its own, so that
+   * it can run between the stages before and after it
+   */
+  private static checkTransactions<TContext extends OperationContext>(
+    levels: PipelineStage<TContext>[][]
+  ): void {
+    const closed = new Set<string>();
+    let open: string | undefined;
+
+    for (const level of levels) {
+      // Deferred stages run later on the queue, outside any transaction
+      const inline = level.filter((stage) => stage.mode !== 'deferred');
+      if (inline.length === 0) {
+        continue;
+      }
+
+      const [first] = inline;
+      const group = first?.transaction;
+      const outsider = inline.find((stage) => stage.transaction !== group);
+      if (outsider) {
+        const name = group ?? outsider.transaction;
+        throw new OrchestratorError(
+          `Transaction '${name}' cannot run concurrently with stages outside it`,
+          outsider.name
+        );
+      }
+
+      if (group !== open) {
+        if (open) {
+          closed.add(open);
+        }
+        if (group && closed.has(group)) {
+          throw new OrchestratorError(
+            `Stages of transaction '${group}' must be consecutive`,
+            first?.name ?? group
+          );
+        }
+        open = group;
+      }
+    }
+  }
+}
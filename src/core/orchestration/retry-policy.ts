@@ -0,0 +1,52 @@
+import { Cancellation } from './cancellation.js';
+import type { RetryPolicy } from './types.js';
+
+/**
+ * Helpers for applying a stage retry policy
+ */
+export class StageRetry {
+  /**
+   * Whether another attempt should be made after `attempt` failed
+   */
+  static shouldRetry(policy: RetryPolicy | undefined, error: unknown, attempt: number): boolean {
+    if (!policy || attempt >= policy.maxAttempts) {
+      return false;
+    }
+    return policy.retryOn ? policy.retryOn(error, attempt) : true;
+  }
+
+  /**
+   * Exponential backoff with optional jitter for the retry following `attempt`
+   */
+  static delayFor(policy: RetryPolicy, attempt: number): number {
+    const initialDelay = policy.initialDelay ?? 100;
+    const multiplier = policy.multiplier ?? 2;
+    const maxDelay = policy.maxDelay ?? 5000;
+    const jitter = Math.min(Math.max(policy.jitter ?? 0, 0), 1);
+
+    const delay = Math.min(initialDelay * Math.pow(multiplier, attempt - 1), maxDelay);
+    return Math.round(delay * (1 - jitter * Math.random()));
+  }
+
+  /**
+   * Wait before the next attempt, giving up early if the signal aborts
+   */
+  static wait(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        reject(Cancellation.reason(signal as AbortSignal));
+      };
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+
+      if (signal?.aborted) {
+        onAbort();
+      } else {
+        signal?.addEventListener('abort', onAbort, { once: true });
+      }
+    });
+  }
+}
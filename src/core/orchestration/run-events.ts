@@ -0,0 +1,104 @@
+import { randomUUID } from 'node:crypto';
+import type { RunEvent, RunEventSink } from './types.js';
+
+type RunEventListener = (event: RunEvent) => void;
+
+/**
+ * Buffered events of one run. Subscribers first receive what already
+ * happened, then live events until `run_finished`.
+ */
+export class RunEventStream implements RunEventSink {
+  private events: RunEvent[] = [];
+  private listeners = new Set<RunEventListener>();
+  private nextId = 1;
+
+  /**
+   * @param owner Who may subscribe, e.g. the id of the user who started the run
+   * @param maxEvents Oldest events are dropped beyond this many
+   */
+  constructor(
+    readonly owner?: string,
+    private maxEvents = 1000
+  ) {}
+
+  get finished(): boolean {
+    return this.events.at(-1)?.type === 'run_finished';
+  }
+
+  emit(event: Omit<RunEvent, 'id' | 'timestamp'>): void {
+    if (this.finished) {
+      return;
+    }
+
+    const entry: RunEvent = { id: this.nextId++, timestamp: new Date().toISOString(), ...event };
+    this.events.push(entry);
+    if (this.events.length > this.maxEvents) {
+      this.events.shift();
+    }
+
+    for (const listener of this.listeners) {
+      listener(entry);
+    }
+    if (this.finished) {
+      this.listeners.clear();
+    }
+  }
+
+  /**
+   * Replay buffered events after `afterId`, then follow live ones. Returns a
+   * function that stops the subscription.
+   */
+  subscribe(listener: RunEventListener, afterId = 0): () => void {
+    for (const event of this.events) {
+      if (event.id > afterId) {
+        listener(event);
+      }
+    }
+
+    if (!this.finished) {
+      this.listeners.add(listener);
+    }
+    return () => this.listeners.delete(listener);
+  }
+}
+
+/**
+ * Event streams of recent runs by id, kept for `retention` ms after they
+ * finish so late subscribers can still catch up.
+ *
+ * Ids are generated here rather than taken from the client, so no request
+ * can take over or cut off the stream of another run.
+ */
+export class RunEventHub {
+  private streams = new Map<string, RunEventStream>();
+
+  constructor(private retention = 5 * 60 * 1000) {}
+
+  /**
+   * Create the stream for a run under a new id. Open one only when someone
+   * will read it - a stream buffers every event until the run finishes.
+   */
+  open(owner?: string): { id: string; stream: RunEventStream } {
+    const id = randomUUID();
+    const stream = new RunEventStream(owner);
+    this.streams.set(id, stream);
+
+    stream.subscribe((event) => {
+      if (event.type !== 'run_finished') {
+        return;
+      }
+      const timer = setTimeout(() => {
+        if (this.streams.get(id) === stream) {
+          this.streams.delete(id);
+        }
+      }, this.retention);
+      timer.unref();
+    });
+
+    return { id, stream };
+  }
+
+  get(id: string): RunEventStream | undefined {
+    return this.streams.get(id);
+  }
+}
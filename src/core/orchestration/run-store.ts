@@ -0,0 +1,75 @@
+import type { Prisma, PrismaClient } from '@prisma/client';
+import type { RunStore, StoredRun } from './types.js';
+
+/**
+ * Round-trip a value through JSON so Prisma stores exactly what a resumed
+ * run will read back
+ */
+function toJson(value: unknown): Prisma.InputJsonObject {
+  // Wrapped so that undefined and primitive values still store a JSON object
+  return JSON.parse(JSON.stringify({ value })) as Prisma.InputJsonObject;
+}
+
+function fromJson(json: unknown): unknown {
+  return (json as { value?: unknown } | null)?.value;
+}
+
+/**
+ * Run journal backed by the `orchestrator_runs` and `orchestrator_run_stages`
+ * tables. Every checkpoint also touches the run's `updatedAt`, which is how
+ * stale runs are told apart from live ones. Finished runs are deleted with
+ * their checkpoints, so the tables only hold runs still in flight.
+ */
+export class PrismaRunStore implements RunStore {
+  constructor(private prisma: PrismaClient) {}
+
+  async start(orchestrator: string, input: unknown): Promise<string> {
+    const run = await this.prisma.orchestratorRun.create({
+      data: { orchestrator, status: 'running', input: toJson(input) },
+      select: { id: true },
+    });
+    return run.id;
+  }
+
+  async checkpoint(runId: string, stage: string, state: unknown): Promise<void> {
+    await this.prisma.orchestratorRun.update({
+      where: { id: runId },
+      data: { stages: { create: { stage, state: toJson(state) } } },
+    });
+  }
+
+  async finish(runId: string, _status: 'completed' | 'failed'): Promise<void> {
+    // Checkpoints go with the run (onDelete: Cascade)
+    await this.prisma.orchestratorRun.delete({ where: { id: runId } });
+  }
+
+  async claimStale(orchestrator: string, staleMs: number): Promise<StoredRun[]> {
+    const candidates = await this.prisma.orchestratorRun.findMany({
+      where: {
+        orchestrator,
+        status: 'running',
+        updatedAt: { lt: new Date(Date.now() - staleMs) },
+      },
+      include: { stages: { orderBy: { completedAt: 'asc' } } },
+    });
+
+    const claimed: StoredRun[] = [];
+    for (const run of candidates) {
+      // Touching the run claims it; an instance racing for the same run matches no row
+      const { count } = await this.prisma.orchestratorRun.updateMany({
+        where: { id: run.id, updatedAt: run.updatedAt },
+        data: { updatedAt: new Date() },
+      });
+
+      if (count === 1) {
+        claimed.push({
+          id: run.id,
+          input: fromJson(run.input),
+          stages: run.stages.map((entry) => ({ name: entry.stage, state: fromJson(entry.state) })),
+        });
+      }
+    }
+
+    return claimed;
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * Orchestrator Test Kit
+ *
+ * Drives an orchestrator in tests: stubs stages, injects delays and
+ * failures, runs timeouts on a fake clock and records a stage-by-stage
+ * trace. It imports vitest, so it is not exported from index.ts - import it
+ * from '@core/orchestration/test-kit.js' in test files only.
+ */
+
+import { vi } from 'vitest';
+import { StageRetry } from './retry-policy.js';
+import type { BaseOrchestrator } from './base-orchestrator.js';
+import type {
+  ExecuteOptions,
+  OperationContext,
+  OrchestratorResult,
+  PipelineOperation,
+  PipelineStage,
+  RunEvent,
+  RunEventSink,
+} from './types.js';
+
+export type StageTraceEvent = 'started' | 'finished' | 'skipped' | 'failed';
+
+export interface StageTraceEntry {
+  stage: string;
+  event: StageTraceEvent;
+  /** Milliseconds since `execute` was called, on the fake clock when one is in use */
+  at: number;
+  /** Set on `finished` and `failed` */
+  duration?: number;
+  /** Message of the error a failed stage threw */
+  error?: string;
+}
+
+/**
+ * What the kit does instead of, or before, a stage's own operation
+ */
+interface StageFault<TContext extends OperationContext> {
+  operation?: PipelineOperation<TContext>;
+  delay?: number;
+  error?: Error;
+  /** Attempts that still fail with `error` */
+  failures?: number;
+}
+
+const TRACE_EVENTS: Partial<Record<RunEvent['type'], StageTraceEvent>> = {
+  stage_started: 'started',
+  stage_finished: 'finished',
+  stage_skipped: 'skipped',
+  stage_failed: 'failed',
+};
+
+export class OrchestratorTestKit<TContext extends OperationContext, TResult, TInput = unknown> {
+  /** Stage events of the last `execute` call, in the order they happened */
+  trace: StageTraceEntry[] = [];
+  private faults = new Map<string, StageFault<TContext>>();
+  private restoreStages: () => void;
+  private fakeClock = false;
+
+  constructor(private orchestrator: BaseOrchestrator<TContext, TResult, TInput>) {
+    this.restoreStages = orchestrator.overrideStages((stage) => this.wrap(stage));
+  }
+
+  /**
+   * Run `operation` instead of the stage's own operation
+   */
+  stub(stage: string, operation: PipelineOperation<TContext>): this {
+    this.fault(stage).operation = operation;
+    return this;
+  }
+
+  /**
+   * Wait `ms` before every attempt of the stage. The wait counts towards
+   * the stage and pipeline timeouts and ends early when the run aborts.
+   */
+  delay(stage: string, ms: number): this {
+    this.fault(stage).delay = ms;
+    return this;
+  }
+
+  /**
+   * Fail the next `times` attempts of the stage with `error` (default: every
+   * attempt). Later attempts run the stage's operation.
+   */
+  fail(stage: string, error?: Error, times = Infinity): this {
+    Object.assign(this.fault(stage), {
+      error: error ?? new Error(`Injected failure in stage '${stage}'`),
+      failures: times,
+    });
+    return this;
+  }
+
+  /**
+   * Run timers, `Date` and `performance.now()` on a fake clock. `execute`
+   * then moves the clock to the next timer whenever the run is waiting, so
+   * delays and timeouts resolve instantly in a deterministic order.
+   */
+  useFakeClock(): this {
+    vi.useFakeTimers({
+      toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'Date', 'performance'],
+    });
+    this.fakeClock = true;
+    return this;
+  }
+
+  /**
+   * Execute the orchestrator, recording the stage trace
+   */
+  async execute(input: TInput, options: ExecuteOptions = {}): Promise<OrchestratorResult<TResult>> {
+    this.trace = [];
+    const startTime = performance.now();
+    const events: RunEventSink = {
+      emit: (event) => {
+        options.events?.emit(event);
+        const type = TRACE_EVENTS[event.type];
+        if (type && event.stage) {
+          this.trace.push({
+            stage: event.stage,
+            event: type,
+            at: performance.now() - startTime,
+            ...(event.duration !== undefined && { duration: event.duration }),
+            ...(type === 'failed' && { error: event.message }),
+          });
+        }
+      },
+    };
+
+    const run = this.orchestrator.execute(input, { ...options, events });
+    if (!this.fakeClock) {
+      return run;
+    }
+
+    let settled = false;
+    run.then(
+      () => (settled = true),
+      () => (settled = true)
+    );
+    while (!settled) {
+      // Let promise chains and I/O progress before the clock moves on
+      await new Promise((resolve) => setImmediate(resolve));
+      if (!settled) {
+        await vi.advanceTimersToNextTimerAsync();
+      }
+    }
+    return run;
+  }
+
+  /**
+   * Names of the stages that started, in start order
+   */
+  started(): string[] {
+    return this.trace.filter((entry) => entry.event === 'started').map((entry) => entry.stage);
+  }
+
+  /**
+   * Trace events of one stage
+   */
+  eventsOf(stage: string): StageTraceEvent[] {
+    return this.trace.filter((entry) => entry.stage === stage).map((entry) => entry.event);
+  }
+
+  /**
+   * Restore the orchestrator's own stages and the real clock
+   */
+  restore(): void {
+    this.restoreStages();
+    this.faults.clear();
+    if (this.fakeClock) {
+      vi.useRealTimers();
+      this.fakeClock = false;
+    }
+  }
+
+  private fault(stage: string): StageFault<TContext> {
+    let fault = this.faults.get(stage);
+    if (!fault) {
+      fault = {};
+      this.faults.set(stage, fault);
+    }
+    return fault;
+  }
+
+  private wrap(stage: PipelineStage<TContext>): PipelineStage<TContext> {
+    const fault = this.faults.get(stage.name);
+    if (!fault) {
+      return stage;
+    }
+
+    return {
+      ...stage,
+      operation: async (context) => {
+        if (fault.delay !== undefined) {
+          await StageRetry.wait(fault.delay, context.signal);
+        }
+        if (fault.error && fault.failures !== undefined && fault.failures > 0) {
+          fault.failures--;
+          throw fault.error;
+        }
+        return (fault.operation ?? stage.operation)(context);
+      },
+    };
+  }
+}
@@ -0,0 +1,17 @@
+import type { Prisma, PrismaClient } from '@prisma/client';
+import type { TransactionRunner } from './types.js';
+
+/**
+ * Runs transaction groups in Prisma interactive transactions
+ */
+export class PrismaTransactionRunner implements TransactionRunner {
+  constructor(private prisma: PrismaClient) {}
+
+  run<T>(
+    fn: (tx: Prisma.TransactionClient) => Promise<T>,
+    options: { timeout: number }
+  ): Promise<T> {
+    // Prisma's 5s default would cut the group off before the pipeline times out
+    return this.prisma.$transaction(fn, { timeout: options.timeout });
+  }
+}
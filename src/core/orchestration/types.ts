@@ -2,9 +2,36 @@
  * Core types for the orchestration pattern
  */
 
+import type { TSchema } from '@sinclair/typebox';
+import type { LevelWithSilent, Logger } from 'pino';
+import type { JobQueue } from '@core/queue/index.js';
+
+/**
+ * Every duration recorded under one name, in ms
+ */
+export interface PerformanceSample {
+  count: number;
+  total: number;
+  min: number;
+  max: number;
+  /** The most recent duration */
+  last: number;
+}
+
 export interface PerformanceTracker {
+  /** Add a duration sample; repeated names keep every sample */
   track(stage: string, duration: number): void;
+  /** Optional; without it retried stages report no `<stage>_attempts` */
+  recordAttempts?(stage: string, attempts: number): void;
+  /**
+   * Time `fn` as a sub-timer of the running operation, recording failures
+   * under `<name>_error`. Optional for custom trackers.
+   */
+  time?<T>(name: string, fn: () => T | Promise<T>): Promise<T>;
+  /** The latest duration per name, plus `<stage>_attempts` counts */
   getMetrics(): Record<string, number>;
+  /** All samples per name; optional, results carry no `timings` without it */
+  getSamples?(): Record<string, PerformanceSample>;
   getTotalDuration(): number;
 }
 
@@ -12,6 +39,43 @@ export interface BasePipelineContext {
   requestId: string;
   startTime: number;
   perfTracker?: PerformanceTracker;
+  /**
+   * Aborted when the stage or pipeline times out or the caller cancels.
+   * Pass it on to Prisma/fetch calls so abandoned work stops.
+   */
+  signal?: AbortSignal;
+  /**
+   * Epoch ms by which the current stage has to finish, bounded by both the
+   * stage and the pipeline timeout. Nested orchestrators use what is left as
+   * their timeout.
+   */
+  deadline?: number;
+  /**
+   * Publish a progress message to the run's event subscribers. Set while a
+   * stage runs; does nothing unless the caller asked for events.
+   */
+  progress?: (message: string, data?: unknown) => void;
+  /**
+   * Client of the open transaction while stages of a transaction group run,
+   * undefined otherwise. Use it instead of the regular client so the group's
+   * writes commit or roll back together.
+   */
+  tx?: unknown;
+  /** The orchestrator's logger, bound to the run's requestId and runId */
+  logger?: Logger;
+  /** Set when the run is one item of `executeMany` */
+  batch?: BatchContext;
+}
+
+/**
+ * Where a run sits in an `executeMany` batch
+ */
+export interface BatchContext {
+  /** Position of the item in `inputs` */
+  index: number;
+  size: number;
+  /** Shared by every item of the batch, e.g. to cache lookups */
+  cache: Map<string, unknown>;
 }
 
 export interface OperationContext extends BasePipelineContext {
@@ -24,26 +88,501 @@ export type PipelineOperation<TContext extends OperationContext> = (
   context: TContext
 ) => Promise<TContext>;
 
+export type StageCompensation<TContext extends OperationContext> = (
+  context: TContext,
+  error: Error
+) => Promise<void>;
+
+export interface RetryPolicy {
+  /** Total attempts including the first one */
+  maxAttempts: number;
+  /** Delay before the first retry in ms (default 100) */
+  initialDelay?: number;
+  /** Growth factor applied to the delay after each retry (default 2) */
+  multiplier?: number;
+  /** Upper bound for a single delay in ms (default 5000) */
+  maxDelay?: number;
+  /** Fraction of the delay that is randomised, 0 to 1 (default 0) */
+  jitter?: number;
+  /** Decide whether an error is worth another attempt (default: always) */
+  retryOn?: (error: unknown, attempt: number) => boolean;
+}
+
+export type StageCondition<TContext extends OperationContext> = (
+  context: TContext
+) => boolean | Promise<boolean>;
+
+/**
+ * Turns the error of a finally failed stage into a degraded context, so the
+ * pipeline carries on as if the stage had succeeded
+ */
+export type StageFallback<TContext extends OperationContext> = (
+  context: TContext,
+  error: Error
+) => Promise<TContext>;
+
+export interface CircuitBreakerPolicy {
+  /** Consecutive failed attempts that open the breaker (default 5) */
+  failureThreshold?: number;
+  /** How long an open breaker rejects attempts before probing, in ms (default 30000) */
+  openDuration?: number;
+  /** Successful probes needed to close a half-open breaker (default 1) */
+  halfOpenProbes?: number;
+}
+
+export type CircuitState = 'closed' | 'half_open' | 'open';
+
+/** `fallback` marks stages that failed and were replaced by their fallback */
+export type StageOutcome = 'success' | 'failed' | 'skipped' | 'timed_out' | 'fallback';
+
 export interface PipelineStage<TContext extends OperationContext> {
   name: string;
   operation: PipelineOperation<TContext>;
+  /** Run the stage only when this returns true; otherwise it is recorded as skipped */
+  when?: StageCondition<TContext>;
   critical?: boolean;
   timeout?: number;
+  /**
+   * Stages that must finish before this one starts. Defaults to the
+   * previous stage; `[]` lets the stage start immediately.
+   */
+  dependsOn?: string[];
+  retry?: RetryPolicy;
+  /**
+   * Undo this stage's side effects when the orchestration fails after it
+   * completed. Compensations run in reverse completion order.
+   */
+  compensate?: StageCompensation<TContext>;
+  /**
+   * `deferred` stages run after the orchestrator has returned, as jobs on the
+   * configured queue. They must come after every stage that is not deferred.
+   */
+  mode?: 'inline' | 'deferred';
+  /**
+   * Name of the transaction group. Consecutive stages naming the same group
+   * run in one transaction that commits when they all succeed and rolls back
+   * when a critical one fails.
+   */
+  transaction?: string;
+  /**
+   * Stop calling the stage once it keeps failing. While the breaker is open
+   * the stage fails at once with a CircuitOpenError instead of waiting for
+   * its timeout. Breakers are per orchestrator and stage name.
+   */
+  circuitBreaker?: CircuitBreakerPolicy;
+  /** Called once the stage has finally failed; its context replaces the failure */
+  fallback?: StageFallback<TContext>;
+}
+
+export interface ExecuteOptions {
+  /** Cancels the run, e.g. when the HTTP client disconnects */
+  signal?: AbortSignal;
+  /**
+   * Runs sharing a key execute once; repeats return the stored result.
+   * Ignored unless the orchestrator is configured with `idempotency`.
+   */
+  idempotencyKey?: string;
+  /**
+   * Use this requestId instead of the one from `initializeContext`.
+   * Defaults to the current request's id when called while serving one.
+   */
+  requestId?: string;
+  /** Shorten the pipeline timeout for this run, e.g. to a parent's remaining budget */
+  timeout?: number;
+  /** Receives progress events while the run executes */
+  events?: RunEventSink;
+  /** Set by `executeMany` on each item */
+  batch?: BatchContext;
+}
+
+export interface BatchOptions extends Omit<ExecuteOptions, 'idempotencyKey' | 'events' | 'batch'> {
+  /** Items executing at once (default: 5) */
+  concurrency?: number;
+  /** Skip the items not started yet once one fails (default: false) */
+  stopOnError?: boolean;
+}
+
+export interface BatchSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  /** Items never started because of `stopOnError` */
+  skipped: number;
+  /** Wall-clock time of the whole batch, in ms */
+  duration: number;
+}
+
+export interface BatchResult<TResult> {
+  /** One result per input, in input order */
+  results: OrchestratorResult<TResult>[];
+  summary: BatchSummary;
+}
+
+export type RunEventType =
+  | 'run_started'
+  | 'stage_started'
+  | 'stage_finished'
+  | 'stage_skipped'
+  | 'stage_failed'
+  | 'progress'
+  | 'run_finished';
+
+/**
+ * Progress of a run as seen by event subscribers
+ */
+export interface RunEvent {
+  /** Position in the run's event sequence, starting at 1 */
+  id: number;
+  type: RunEventType;
+  timestamp: string;
+  stage?: string;
+  /** Custom progress message, or the error of a failed stage or run */
+  message?: string;
+  /** Custom progress data, or `result.data` of a finished run */
+  data?: unknown;
+  /** Set on `stage_finished`, `stage_failed` and `run_finished` */
+  duration?: number;
+  /** Set on `run_finished` */
+  success?: boolean;
+}
+
+/**
+ * Where an orchestrator publishes the events of a run
+ */
+export interface RunEventSink {
+  emit(event: Omit<RunEvent, 'id' | 'timestamp'>): void;
+}
+
+export interface IdempotencyRecord {
+  status: 'in_progress' | 'completed';
+  /** The stored `result.data` of a completed run */
+  data?: unknown;
+  /** Fingerprint of the input the key was first used with */
+  fingerprint?: string;
+}
+
+/**
+ * Persists the outcome of idempotent runs
+ */
+export interface IdempotencyStore {
+  /**
+   * Atomically claim `key` for `leaseMs`, remembering the fingerprint of the
+   * input. Resolves to undefined when the caller now owns the key, otherwise
+   * to the existing record.
+   */
+  claim(
+    scope: string,
+    key: string,
+    leaseMs: number,
+    fingerprint: string
+  ): Promise<IdempotencyRecord | undefined>;
+  /** Store the result of a successful run for `ttlMs` */
+  complete(scope: string, key: string, data: unknown, ttlMs: number): Promise<void>;
+  /** Drop a claim so the run can be retried */
+  release(scope: string, key: string): Promise<void>;
+}
+
+export interface IdempotencyConfig {
+  store: IdempotencyStore;
+  /** How long a successful result is replayed, in ms (default: 24 hours) */
+  ttl?: number;
+  /**
+   * How long a claim blocks repeats while its run is going, in ms. It has to
+   * outlast the run, its compensations and recording the result (default:
+   * the pipeline timeout plus one minute).
+   */
+  lease?: number;
+}
+
+/**
+ * A durable run that has not finished, with the checkpoints of its completed
+ * stages in completion order
+ */
+export interface StoredRun {
+  id: string;
+  input: unknown;
+  stages: Array<{ name: string; state: unknown }>;
+}
+
+/**
+ * Journals durable runs so they can be resumed after a crash
+ */
+export interface RunStore {
+  /** Record a new run and return its id */
+  start(orchestrator: string, input: unknown): Promise<string>;
+  /** Record that a stage completed, with the serialised context it produced */
+  checkpoint(runId: string, stage: string, state: unknown): Promise<void>;
+  /** Called once a run has completed or failed; the run will not be resumed */
+  finish(runId: string, status: 'completed' | 'failed'): Promise<void>;
+  /**
+   * Claim unfinished runs that have not been touched for `staleMs`. A run is
+   * handed to only one caller.
+   */
+  claimStale(orchestrator: string, staleMs: number): Promise<StoredRun[]>;
+}
+
+export interface LoggingConfig {
+  /** Defaults to a `createLogger` child named after the orchestrator */
+  logger?: Logger;
+  /** Least severe level this orchestrator logs (default: the logger's own) */
+  level?: LevelWithSilent;
+  /**
+   * Keys masked wherever they appear in logged input and context, matched
+   * case-insensitively (default: DEFAULT_REDACTED_FIELDS)
+   */
+  redact?: string[];
+}
+
+export type FaultKind = 'latency' | 'error' | 'timeout';
+
+/**
+ * A fault to inject into the attempts of matching stages
+ */
+export interface FaultRule {
+  /** Orchestrator name, or `*` for every orchestrator */
+  orchestrator: string;
+  /** Stage name, or `*` for every stage */
+  stage: string;
+  /**
+   * `latency` delays the attempt, `error` fails it and `timeout` holds it
+   * until the stage or pipeline timeout fires
+   */
+  fault: FaultKind;
+  /** Delay of a latency fault in ms (default 1000) */
+  latency?: number;
+  /** Message of an injected error */
+  message?: string;
+  /** Chance that an attempt is hit, 0 to 1 (default 0: only when requested by header) */
+  probability?: number;
+}
+
+export interface FaultInjectionConfig {
+  enabled: boolean;
+  rules: FaultRule[];
+}
+
+export interface DurabilityConfig {
+  store: RunStore;
+  /**
+   * How long a run has to go untouched before `recover` resumes it, in ms. It
+   * has to outlast the run, its compensations and finishing it (default: the
+   * pipeline timeout plus one minute).
+   */
+  staleAfter?: number;
+}
+
+/**
+ * Payload of the queue job that runs a deferred stage
+ */
+export interface DeferredStageJob {
+  stage: string;
+  input: unknown;
+  /** The context serialised once the inline stages finished */
+  state: unknown;
+}
+
+/**
+ * Opens the transactions that transaction groups run in
+ */
+export interface TransactionRunner {
+  /**
+   * Run `fn` with a transaction client, committing when it resolves and
+   * rolling back when it rejects
+   */
+  run<T>(fn: (tx: unknown) => Promise<T>, options: { timeout: number }): Promise<T>;
 }
 
 export interface OrchestratorConfig {
   name: string;
   timeout?: number;
   enableMetrics?: boolean;
+  /** Log failures at warn/error level (default: true) */
   logErrors?: boolean;
+  /** Checked before `initializeContext`; a mismatch fails the run without starting it */
+  input?: TSchema;
+  /** Checked after `buildResult`; a mismatch fails the run and compensates it */
+  output?: TSchema;
+  logging?: LoggingConfig;
+  idempotency?: IdempotencyConfig;
+  /** Journal runs so `recover()` can resume them after a crash */
+  durability?: DurabilityConfig;
+  /** Runs deferred stages; without a queue they run inline */
+  queue?: JobQueue;
+  /** Required by pipelines with transaction groups */
+  transactions?: TransactionRunner;
+  /** Most runs executing at once; further runs wait in FIFO order (default: unlimited) */
+  maxConcurrency?: number;
+  /**
+   * Most runs waiting for a slot when `maxConcurrency` is reached; runs
+   * beyond it fail with an OrchestratorOverloadError (default: unlimited)
+   */
+  maxQueue?: number;
+}
+
+export interface CompensationReport {
+  stage: string;
+  status: 'compensated' | 'failed';
+  error?: Error;
+}
+
+/**
+ * Outcome of a nested orchestrator, attached to the report of the stage that
+ * ran it
+ */
+export interface NestedRunReport {
+  orchestrator: string;
+  success: boolean;
+  duration: number;
+  metrics?: Record<string, number>;
+  stages: StageReport[];
+  runId?: string;
+  deferred?: string[];
+}
+
+/**
+ * How a child orchestrator is embedded as a stage
+ */
+export type NestedStageOptions<TContext extends OperationContext, TInput, TResult> = Omit<
+  PipelineStage<TContext>,
+  'operation'
+> & {
+  /** Build the child's input from the parent context */
+  input: (context: TContext) => TInput;
+  /** Copy the child's result onto the parent context */
+  output?: (context: TContext, data: TResult) => TContext | void;
+};
+
+export interface StageReport {
+  name: string;
+  status: StageOutcome;
+  /** Milliseconds between the start of `execute` and the start of the stage */
+  startOffset: number;
+  duration: number;
+  /** 0 for skipped stages */
+  attempts: number;
+  error?: Error;
+  /** Set for stages that ran a nested orchestrator */
+  nested?: NestedRunReport;
+  /** Faults injected into the stage's attempts, see FaultInjection */
+  injected?: FaultKind[];
 }
 
 export interface OrchestratorResult<TResult> {
   success: boolean;
   data?: TResult;
-  error?: Error;
+  error?: OrchestratorError;
   duration: number;
   metrics?: Record<string, number>;
+  /** Count, total, min, max and latest duration per stage and sub-timer */
+  timings?: Record<string, PerformanceSample>;
+  /** One entry per stage that started or was skipped, ordered by start time */
+  stages: StageReport[];
+  compensations?: CompensationReport[];
+  skipped?: string[];
+  /** Set when the result was replayed for a repeated idempotency key */
+  replayed?: boolean;
+  /** Id of the journalled run, for durable orchestrators */
+  runId?: string;
+  /** Deferred stages handed to the job queue */
+  deferred?: string[];
+}
+
+/**
+ * What middleware sees of a stage
+ */
+export type StageDescriptor = Pick<
+  PipelineStage<OperationContext>,
+  'name' | 'critical' | 'timeout' | 'dependsOn' | 'retry' | 'transaction'
+>;
+
+/**
+ * Cross-cutting hooks around an orchestrator run.
+ *
+ * `beforeExecute` and `beforeStage` may throw to fail the run or stage; errors
+ * from the other hooks are logged and ignored.
+ */
+export interface OrchestratorMiddleware<TContext extends OperationContext = OperationContext> {
+  name: string;
+  beforeExecute?(context: TContext): void | Promise<void>;
+  beforeStage?(context: TContext, stage: StageDescriptor): void | Promise<void>;
+  /** Called for stages that succeeded or were skipped */
+  afterStage?(context: TContext, stage: StageDescriptor, report: StageReport): void | Promise<void>;
+  /** Called once a stage has finally failed or timed out, after any retries */
+  onStageError?(
+    context: TContext,
+    stage: StageDescriptor,
+    error: Error,
+    report: StageReport
+  ): void | Promise<void>;
+  afterExecute?(
+    context: TContext | undefined,
+    result: OrchestratorResult<unknown>
+  ): void | Promise<void>;
+}
+
+/**
+ * Static view of a pipeline stage, as exposed by the orchestrator registry
+ */
+export interface PipelineStageInfo {
+  name: string;
+  critical: boolean;
+  timeout?: number;
+  mode: 'inline' | 'deferred';
+  dependsOn?: string[];
+  /** 1 unless the stage has a retry policy */
+  maxAttempts: number;
+  conditional: boolean;
+  compensated: boolean;
+  transaction?: string;
+  fallback: boolean;
+  circuitBreaker: boolean;
+}
+
+/**
+ * Live state of one stage circuit breaker
+ */
+export interface CircuitBreakerInfo {
+  orchestrator: string;
+  stage: string;
+  state: CircuitState;
+  /** Milliseconds until an open breaker admits a probe, 0 otherwise */
+  retryIn: number;
+}
+
+export interface OrchestratorInfo {
+  name: string;
+  timeout: number;
+  enableMetrics: boolean;
+  logErrors: boolean;
+  idempotent: boolean;
+  durable: boolean;
+  /** Whether deferred stages go to a job queue */
+  queued: boolean;
+  /** Whether the orchestrator can run transaction groups */
+  transactional: boolean;
+  maxConcurrency?: number;
+  maxQueue?: number;
+  stages: PipelineStageInfo[];
+}
+
+/**
+ * Live numbers for one orchestrator, read from OrchestratorMetrics
+ */
+export interface OrchestratorStats {
+  activeOperations: number;
+  /** Runs waiting for a concurrency slot */
+  queuedOperations: number;
+  runs: { success: number; error: number };
+  /** Mean pipeline duration in ms, null before the first run */
+  averageDuration: number | null;
+  stages: Record<
+    string,
+    {
+      /** Mean latency of successful runs in ms, null before the first one */
+      averageLatency: number | null;
+      outcomes: Partial<Record<StageOutcome, number>>;
+    }
+  >;
 }
 
 export class OrchestratorError extends Error {
@@ -57,3 +596,143 @@ export class OrchestratorError extends Error {
     this.name = 'OrchestratorError';
   }
 }
+
+/**
+ * Raised when a stage or the whole pipeline exceeds its timeout
+ */
+export class OrchestratorTimeoutError extends OrchestratorError {
+  constructor(
+    message: string,
+    stage: string,
+    public readonly timeout: number
+  ) {
+    super(message, stage);
+    this.name = 'OrchestratorTimeoutError';
+  }
+}
+
+/**
+ * Raised when a run with the same idempotency key is still in progress
+ */
+export class IdempotencyConflictError extends OrchestratorError {
+  constructor(public readonly idempotencyKey: string) {
+    super(
+      `A request with idempotency key '${idempotencyKey}' is already in progress`,
+      'idempotency'
+    );
+    this.name = 'IdempotencyConflictError';
+  }
+}
+
+/**
+ * Raised when an idempotency key is reused with a different input
+ */
+export class IdempotencyMismatchError extends OrchestratorError {
+  constructor(public readonly idempotencyKey: string) {
+    super(
+      `Idempotency key '${idempotencyKey}' was already used with a different request`,
+      'idempotency'
+    );
+    this.name = 'IdempotencyMismatchError';
+  }
+}
+
+/**
+ * Raised when a run is turned away because the orchestrator's concurrency
+ * slots and queue are full
+ */
+export class OrchestratorOverloadError extends OrchestratorError {
+  constructor(
+    orchestrator: string,
+    /** Seconds after which a retry is likely to be admitted */
+    public readonly retryAfter: number
+  ) {
+    super(`Orchestrator '${orchestrator}' is overloaded, retry in ${retryAfter}s`, 'queue');
+    this.name = 'OrchestratorOverloadError';
+  }
+}
+
+/**
+ * Raised instead of running a stage whose circuit breaker is open
+ */
+export class CircuitOpenError extends OrchestratorError {
+  constructor(
+    stage: string,
+    /** Milliseconds until the breaker admits a probe */
+    public readonly retryIn: number
+  ) {
+    super(`Circuit breaker for stage '${stage}' is open`, stage);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Raised by an `error` fault of FaultInjection
+ */
+export class InjectedFaultError extends OrchestratorError {
+  readonly injected = true;
+
+  constructor(stage: string, message = `Injected fault in stage '${stage}'`) {
+    super(message, stage);
+    this.name = 'InjectedFaultError';
+  }
+}
+
+/**
+ * Raised by a stage whose nested orchestrator failed
+ */
+export class NestedOrchestratorError extends OrchestratorError {
+  constructor(
+    public readonly nested: NestedRunReport,
+    originalError?: OrchestratorError
+  ) {
+    super(
+      `Nested orchestrator '${nested.orchestrator}' failed: ${originalError?.message ?? 'unknown error'}`,
+      originalError?.stage ?? nested.orchestrator,
+      undefined,
+      originalError
+    );
+    this.name = 'NestedOrchestratorError';
+  }
+}
+
+/**
+ * A value that does not match its schema at `path`
+ */
+export interface ValidationIssue {
+  /** JSON pointer to the field, empty for the value itself */
+  path: string;
+  message: string;
+}
+
+/**
+ * Raised when the input or the result of a run does not match the
+ * orchestrator's schema
+ */
+export class OrchestratorValidationError extends OrchestratorError {
+  constructor(
+    stage: 'input' | 'output',
+    public readonly issues: ValidationIssue[]
+  ) {
+    super(
+      `Invalid ${stage}: ${issues.map((issue) => `${issue.path || '/'} ${issue.message}`).join(', ')}`,
+      stage
+    );
+    this.name = 'OrchestratorValidationError';
+  }
+}
+
+/**
+ * Raised when a pipeline file is unreadable, invalid or refers to unknown names
+ */
+export class PipelineConfigError extends Error {
+  constructor(
+    public readonly source: string,
+    public readonly issues: string[]
+  ) {
+    super(
+      `Invalid pipeline config ${source}:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`
+    );
+    this.name = 'PipelineConfigError';
+  }
+}
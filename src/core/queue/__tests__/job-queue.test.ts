@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PostgresJobQueue } from '@core/queue/index.js';
+import type { PrismaClient } from '@prisma/client';
+
+const job = (attempts: number, maxAttempts = 3) => ({
+  id: 'job-1',
+  type: 'email',
+  payload: { value: { to: 'user@example.com' } },
+  attempts,
+  maxAttempts,
+});
+
+const createPrisma = (claimed: unknown[]) => ({
+  $queryRaw: vi.fn().mockResolvedValue(claimed),
+  job: {
+    create: vi.fn().mockResolvedValue({ id: 'job-1' }),
+    update: vi.fn().mockResolvedValue({}),
+    delete: vi.fn().mockResolvedValue({}),
+  },
+});
+
+describe('PostgresJobQueue', () => {
+  it('stores the payload and the attempt budget when enqueuing', async () => {
+    const prisma = createPrisma([]);
+    const queue = new PostgresJobQueue(prisma as unknown as PrismaClient);
+
+    await queue.enqueue('email', { to: 'user@example.com' }, { maxAttempts: 2 });
+
+    expect(prisma.job.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: 'email',
+        payload: { value: { to: 'user@example.com' } },
+        maxAttempts: 2,
+      }) as unknown,
+      select: { id: true },
+    });
+  });
+
+  it('runs a claimed job and deletes it once done', async () => {
+    const prisma = createPrisma([job(1)]);
+    const queue = new PostgresJobQueue(prisma as unknown as PrismaClient);
+    const handler = vi.fn(() => Promise.resolve());
+    queue.register('email', handler);
+
+    expect(await queue.processNext()).toBe(true);
+    expect(handler).toHaveBeenCalledWith(
+      { to: 'user@example.com' },
+      { id: 'job-1', type: 'email', attempt: 1 }
+    );
+    expect(prisma.job.delete).toHaveBeenCalledWith({ where: { id: 'job-1' } });
+  });
+
+  it('schedules a retry with backoff when a job fails', async () => {
+    const prisma = createPrisma([job(2)]);
+    const queue = new PostgresJobQueue(prisma as unknown as PrismaClient, {
+      retry: { maxAttempts: 3, initialDelay: 1000 },
+    });
+    queue.register('email', () => Promise.reject(new Error('smtp down')));
+
+    const before = Date.now();
+    await queue.processNext();
+
+    const [[update]] = prisma.job.update.mock.calls as [[{ data: { runAt: Date } }]];
+    expect(update.data).toMatchObject({ status: 'pending', lastError: 'smtp down' });
+    expect(update.data.runAt.getTime()).toBeGreaterThanOrEqual(before + 2000);
+  });
+
+  it('moves a job to the dead-letter status after its last attempt', async () => {
+    const prisma = createPrisma([job(3)]);
+    const queue = new PostgresJobQueue(prisma as unknown as PrismaClient);
+    queue.register('email', () => Promise.reject(new Error('smtp down')));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await queue.processNext();
+
+    expect(prisma.job.update).toHaveBeenCalledWith({
+      where: { id: 'job-1' },
+      data: { status: 'dead', lockedAt: null, lastError: 'smtp down' },
+    });
+  });
+
+  it('does not claim jobs before a handler is registered', async () => {
+    const prisma = createPrisma([job(1)]);
+    const queue = new PostgresJobQueue(prisma as unknown as PrismaClient);
+
+    expect(await queue.processNext()).toBe(false);
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+});
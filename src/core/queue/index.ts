@@ -0,0 +1,6 @@
+/**
+ * Core job queue exports
+ */
+export { PostgresJobQueue } from './job-queue.js';
+export { QueueMetrics } from './queue-metrics.js';
+export type { EnqueueOptions, JobHandler, JobInfo, JobQueue, JobQueueOptions } from './types.js';
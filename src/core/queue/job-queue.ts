@@ -0,0 +1,209 @@
+import type { Prisma, PrismaClient } from '@prisma/client';
+import { StageRetry } from '@core/orchestration/index.js';
+import type { RetryPolicy } from '@core/orchestration/index.js';
+import type { EnqueueOptions, JobHandler, JobQueue, JobQueueOptions } from './types.js';
+import { QueueMetrics } from './queue-metrics.js';
+import { createLogger } from '@utils/logger.js';
+
+interface ClaimedJob {
+  id: string;
+  type: string;
+  payload: unknown;
+  attempts: number;
+  maxAttempts: number;
+}
+
+const logger = createLogger('JobQueue');
+
+const DEFAULT_RETRY: Omit<RetryPolicy, 'retryOn'> = {
+  maxAttempts: 5,
+  initialDelay: 1000,
+  maxDelay: 60000,
+};
+
+/**
+ * In-process job queue backed by the `jobs` table.
+ *
+ * Workers claim due jobs with `FOR UPDATE SKIP LOCKED`, so any number of
+ * instances can share the table. A failed job is retried with exponential
+ * backoff and moved to the `dead` status once it runs out of attempts.
+ * Completed jobs are deleted.
+ */
+export class PostgresJobQueue implements JobQueue {
+  private handlers = new Map<string, JobHandler>();
+  private options: Required<JobQueueOptions>;
+  private running = false;
+  private timer?: NodeJS.Timeout;
+  private polling?: Promise<void>;
+
+  constructor(
+    private prisma: PrismaClient,
+    options: JobQueueOptions = {}
+  ) {
+    this.options = {
+      pollInterval: options.pollInterval ?? 1000,
+      lockTimeout: options.lockTimeout ?? 5 * 60 * 1000,
+      retry: options.retry ?? DEFAULT_RETRY,
+    };
+  }
+
+  register(type: string, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  async enqueue(type: string, payload: unknown, options: EnqueueOptions = {}): Promise<string> {
+    const job = await this.prisma.job.create({
+      data: {
+        type,
+        // Wrapped so that undefined and primitive payloads still store a JSON object
+        payload: JSON.parse(JSON.stringify({ value: payload })) as Prisma.InputJsonObject,
+        maxAttempts: options.maxAttempts ?? this.options.retry.maxAttempts,
+        runAt: new Date(Date.now() + (options.delay ?? 0)),
+      },
+      select: { id: true },
+    });
+    return job.id;
+  }
+
+  /**
+   * Start polling for due jobs
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling and wait for the job in progress to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    clearTimeout(this.timer);
+    await this.polling;
+  }
+
+  /**
+   * Claim and run one due job. Resolves to false when no job was due.
+   */
+  async processNext(): Promise<boolean> {
+    const job = await this.claim();
+    if (!job) {
+      return false;
+    }
+
+    try {
+      const handler = this.handlers.get(job.type);
+      if (!handler) {
+        throw new Error(`No handler registered for job type '${job.type}'`);
+      }
+
+      await handler((job.payload as { value?: unknown } | null)?.value, {
+        id: job.id,
+        type: job.type,
+        attempt: job.attempts,
+      });
+
+      await this.prisma.job.delete({ where: { id: job.id } });
+      QueueMetrics.processed.inc({ type: job.type, outcome: 'completed' });
+    } catch (error) {
+      await this.fail(job, error);
+    }
+
+    return true;
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(() => {
+      this.polling = this.poll();
+    }, delay);
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      // Drain every due job before sleeping again
+      while (this.running && (await this.processNext())) {
+        // Keep going
+      }
+      await this.refreshDepth();
+    } catch (error) {
+      logger.error({ err: error }, 'Polling failed');
+    }
+
+    if (this.running) {
+      this.schedule(this.options.pollInterval);
+    }
+  }
+
+  /**
+   * Lock the next due job of a registered type, or a running job whose
+   * worker has held it past the lock timeout
+   */
+  private async claim(): Promise<ClaimedJob | undefined> {
+    const types = [...this.handlers.keys()];
+    if (types.length === 0) {
+      return undefined;
+    }
+
+    const lockExpiry = new Date(Date.now() - this.options.lockTimeout);
+    const [job] = await this.prisma.$queryRaw<ClaimedJob[]>`
+      UPDATE "jobs"
+      SET "status" = 'running', "lockedAt" = NOW(), "attempts" = "attempts" + 1, "updatedAt" = NOW()
+      WHERE "id" = (
+        SELECT "id" FROM "jobs"
+        WHERE "type" = ANY(${types})
+          AND (
+            ("status" = 'pending' AND "runAt" <= NOW())
+            OR ("status" = 'running' AND "lockedAt" < ${lockExpiry})
+          )
+        ORDER BY "runAt"
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+      )
+      RETURNING "id", "type", "payload", "attempts", "maxAttempts"`;
+
+    return job;
+  }
+
+  /**
+   * Schedule a retry, or move the job to the dead-letter status once it has
+   * used all its attempts
+   */
+  private async fail(job: ClaimedJob, error: unknown): Promise<void> {
+    const lastError = error instanceof Error ? error.message : String(error);
+
+    if (job.attempts >= job.maxAttempts) {
+      await this.prisma.job.update({
+        where: { id: job.id },
+        data: { status: 'dead', lockedAt: null, lastError },
+      });
+      QueueMetrics.processed.inc({ type: job.type, outcome: 'dead' });
+      logger.error(
+        { err: error, jobId: job.id, type: job.type, attempts: job.attempts },
+        'Job failed after its last attempt'
+      );
+      return;
+    }
+
+    const delay = StageRetry.delayFor(this.options.retry, job.attempts);
+    await this.prisma.job.update({
+      where: { id: job.id },
+      data: { status: 'pending', lockedAt: null, lastError, runAt: new Date(Date.now() + delay) },
+    });
+    QueueMetrics.processed.inc({ type: job.type, outcome: 'retried' });
+  }
+
+  private async refreshDepth(): Promise<void> {
+    const counts = await this.prisma.job.groupBy({
+      by: ['type', 'status'],
+      _count: { _all: true },
+    });
+
+    QueueMetrics.depth.reset();
+    for (const entry of counts) {
+      QueueMetrics.depth.set({ type: entry.type, status: entry.status }, entry._count._all);
+    }
+  }
+}
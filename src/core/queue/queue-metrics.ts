@@ -0,0 +1,25 @@
+/**
+ * Job Queue Metrics - Prometheus Integration
+ */
+
+import promClient from 'prom-client';
+
+export const QueueMetrics = {
+  /**
+   * Track jobs in the queue by type and status
+   */
+  depth: new promClient.Gauge({
+    name: 'job_queue_depth',
+    help: 'Number of jobs in the queue by status (pending, running, dead)',
+    labelNames: ['type', 'status'],
+  }),
+
+  /**
+   * Track how each job run ended: completed, retried or dead
+   */
+  processed: new promClient.Counter({
+    name: 'job_queue_processed_total',
+    help: 'Total number of job runs by outcome',
+    labelNames: ['type', 'outcome'],
+  }),
+};
@@ -0,0 +1,35 @@
+import type { RetryPolicy } from '@core/orchestration/index.js';
+
+export interface JobInfo {
+  id: string;
+  type: string;
+  /** 1 on the first run */
+  attempt: number;
+}
+
+export type JobHandler = (payload: unknown, job: JobInfo) => Promise<void>;
+
+export interface EnqueueOptions {
+  /** Overrides the queue's retry policy for this job */
+  maxAttempts?: number;
+  /** Run no earlier than this many ms from now */
+  delay?: number;
+}
+
+export interface JobQueue {
+  /** Handle jobs of `type`. Registering a type again replaces its handler. */
+  register(type: string, handler: JobHandler): void;
+  enqueue(type: string, payload: unknown, options?: EnqueueOptions): Promise<string>;
+}
+
+export interface JobQueueOptions {
+  /** How often to look for due jobs when the queue is empty, in ms (default: 1000) */
+  pollInterval?: number;
+  /**
+   * How long a running job may hold its lock before another worker
+   * reclaims it, in ms (default: 5 minutes)
+   */
+  lockTimeout?: number;
+  /** Attempts and backoff between them (default: 5 attempts from 1s, capped at 1 minute) */
+  retry?: Omit<RetryPolicy, 'retryOn'>;
+}
@@ -9,8 +9,8 @@ const corsPlugin: FastifyPluginAsync = async (fastify) => {
     origin: origins,
     credentials: fastify.config.CORS_CREDENTIALS,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
-    exposedHeaders: ['X-Request-Id'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'Idempotency-Key', 'X-Fault-Injection'],
+    exposedHeaders: ['X-Request-Id', 'X-Run-Id', 'Idempotent-Replayed', 'Retry-After'],
   });
 };
 
@@ -24,6 +24,9 @@ const envSchema = Type.Object({
   RATE_LIMIT_MAX: Type.Number({ default: 100 }),
   RATE_LIMIT_TIME_WINDOW: Type.Number({ default: 60000 }),
 
+  // Requests (orchestrators run no longer than the time left until this deadline)
+  REQUEST_TIMEOUT: Type.Number({ default: 30000 }),
+
   // CORS
   CORS_ORIGIN: Type.String({ default: 'http://localhost:3001,http://localhost:3000' }),
   CORS_CREDENTIALS: Type.Boolean({ default: true }),
@@ -32,6 +35,27 @@ const envSchema = Type.Object({
   METRICS_ENABLED: Type.Boolean({ default: true }),
   METRICS_PATH: Type.String({ default: '/metrics' }),
 
+  // Tracing
+  TRACING_ENABLED: Type.Boolean({ default: false }),
+  TRACING_EXPORTER: Type.Union(
+    [Type.Literal('console'), Type.Literal('file'), Type.Literal('otlp')],
+    { default: 'console' }
+  ),
+  TRACING_SERVICE_NAME: Type.String({ default: 'fastify-starter' }),
+  TRACING_FILE_PATH: Type.String({ default: 'logs/traces.jsonl' }),
+  TRACING_OTLP_ENDPOINT: Type.String({ default: 'http://localhost:4318/v1/traces' }),
+
+  // Job queue
+  JOB_QUEUE_ENABLED: Type.Boolean({ default: true }),
+  JOB_QUEUE_POLL_INTERVAL: Type.Number({ default: 1000 }),
+
+  // Run events (progress streamed over SSE)
+  RUN_EVENTS_RETENTION: Type.Number({ default: 300000 }),
+
+  // Fault injection (chaos testing; off unless enabled explicitly)
+  FAULT_INJECTION_ENABLED: Type.Boolean({ default: false }),
+  FAULT_INJECTION_RULES: Type.String({ default: '[]' }),
+
   // Swagger
   SWAGGER_ENABLED: Type.Boolean({ default: true }),
   SWAGGER_PATH: Type.String({ default: '/documentation' }),
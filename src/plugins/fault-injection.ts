@@ -0,0 +1,40 @@
+import fp from 'fastify-plugin';
+import type { FastifyPluginAsync } from 'fastify';
+import { FAULT_INJECTION_HEADER, FaultInjection } from '@core/orchestration/index.js';
+
+// eslint-disable-next-line @typescript-eslint/require-await
+const faultInjectionPlugin: FastifyPluginAsync = async (fastify) => {
+  // Any client can trigger injected faults by header, so it is strictly opt-in
+  if (!fastify.config.FAULT_INJECTION_ENABLED) {
+    return;
+  }
+
+  // Invalid rules stop the server at startup
+  const rules = FaultInjection.parse(fastify.config.FAULT_INJECTION_RULES, 'FAULT_INJECTION_RULES');
+  if (rules.length === 0) {
+    return;
+  }
+
+  const reset = FaultInjection.configure({ enabled: true, rules });
+  fastify.log.warn({ rules }, 'Fault injection is enabled');
+
+  // Requests name the stages to fail in the header; the store is shared with
+  // the request context created just before
+  fastify.addHook('onRequest', (request, _reply, done) => {
+    const header = request.headers[FAULT_INJECTION_HEADER];
+    if (typeof header === 'string' && header.length > 0) {
+      request.requestContext.faults = header.split(',').map((target) => target.trim());
+    }
+    done();
+  });
+
+  fastify.addHook('onClose', (_instance, done) => {
+    reset();
+    done();
+  });
+};
+
+export default fp(faultInjectionPlugin, {
+  name: 'fault-injection',
+  dependencies: ['env', 'request-context'],
+});
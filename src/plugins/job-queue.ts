@@ -0,0 +1,37 @@
+import fp from 'fastify-plugin';
+import type { FastifyPluginAsync } from 'fastify';
+import { PostgresJobQueue } from '@core/queue/index.js';
+
+// Extend Fastify instance type
+declare module 'fastify' {
+  interface FastifyInstance {
+    jobQueue: PostgresJobQueue;
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/require-await
+const jobQueuePlugin: FastifyPluginAsync = async (fastify) => {
+  const queue = new PostgresJobQueue(fastify.prisma, {
+    pollInterval: fastify.config.JOB_QUEUE_POLL_INTERVAL,
+  });
+
+  fastify.decorate('jobQueue', queue);
+
+  // Start once every route has registered its job handlers
+  fastify.addHook('onReady', (done) => {
+    if (fastify.config.JOB_QUEUE_ENABLED) {
+      queue.start();
+    }
+    done();
+  });
+
+  // Let the job in progress finish before Prisma disconnects
+  fastify.addHook('onClose', async () => {
+    await queue.stop();
+  });
+};
+
+export default fp(jobQueuePlugin, {
+  name: 'job-queue',
+  dependencies: ['env', 'prisma'],
+});
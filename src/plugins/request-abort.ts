@@ -0,0 +1,30 @@
+import fp from 'fastify-plugin';
+import type { FastifyPluginAsync } from 'fastify';
+
+// Extend request type
+declare module 'fastify' {
+  interface FastifyRequest {
+    abortSignal: AbortSignal;
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/require-await
+const requestAbortPlugin: FastifyPluginAsync = async (fastify) => {
+  fastify.decorateRequest('abortSignal', null);
+
+  // Abort when the connection closes before the response was fully written
+  fastify.addHook('onRequest', async (request, reply) => {
+    const controller = new AbortController();
+    request.abortSignal = controller.signal;
+
+    reply.raw.once('close', () => {
+      if (!reply.raw.writableFinished) {
+        controller.abort(new Error('Client disconnected'));
+      }
+    });
+  });
+};
+
+export default fp(requestAbortPlugin, {
+  name: 'request-abort',
+});
@@ -0,0 +1,41 @@
+import fp from 'fastify-plugin';
+import type { FastifyPluginAsync } from 'fastify';
+import { RequestContext } from '@core/context/index.js';
+import type { RequestContextStore } from '@core/context/index.js';
+
+// Extend request type
+declare module 'fastify' {
+  interface FastifyRequest {
+    requestContext: RequestContextStore;
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/require-await
+const requestContextPlugin: FastifyPluginAsync = async (fastify) => {
+  fastify.decorateRequest('requestContext', null);
+
+  // The deadline counts from the moment the request arrived
+  fastify.addHook('onRequest', (request, _reply, done) => {
+    request.requestContext = {
+      requestId: request.id,
+      logger: request.log,
+      deadline: Date.now() + fastify.config.REQUEST_TIMEOUT,
+    };
+    RequestContext.run(request.requestContext, done);
+  });
+
+  // Body parsing can lose the async context, so enter it again for the
+  // handler, by which point authentication has run
+  fastify.addHook('preHandler', (request, _reply, done) => {
+    if (request.user) {
+      const { id, email, role } = request.user;
+      request.requestContext.user = { id, email, role };
+    }
+    RequestContext.run(request.requestContext, done);
+  });
+};
+
+export default fp(requestContextPlugin, {
+  name: 'request-context',
+  dependencies: ['env'],
+});
@@ -0,0 +1,50 @@
+import fp from 'fastify-plugin';
+import { PassThrough } from 'node:stream';
+import type { FastifyPluginAsync, FastifyReply } from 'fastify';
+import { RunEventHub } from '@core/orchestration/index.js';
+import type { RunEventStream } from '@core/orchestration/index.js';
+
+// Extend Fastify types
+declare module 'fastify' {
+  interface FastifyInstance {
+    runEvents: RunEventHub;
+  }
+  interface FastifyReply {
+    /**
+     * Stream the events of a run as Server-Sent Events, starting after
+     * `lastEventId`. The response ends with the `run_finished` event.
+     */
+    sendEvents(stream: RunEventStream, lastEventId?: number): FastifyReply;
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/require-await
+const runEventsPlugin: FastifyPluginAsync = async (fastify) => {
+  fastify.decorate('runEvents', new RunEventHub(fastify.config.RUN_EVENTS_RETENTION));
+
+  fastify.decorateReply(
+    'sendEvents',
+    function (this: FastifyReply, stream: RunEventStream, lastEventId = 0) {
+      const body = new PassThrough();
+      const unsubscribe = stream.subscribe((event) => {
+        body.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+        if (event.type === 'run_finished') {
+          body.end();
+        }
+      }, lastEventId);
+
+      // Stop following the run when the client goes away
+      this.raw.once('close', unsubscribe);
+
+      return this.header('content-type', 'text/event-stream')
+        .header('cache-control', 'no-cache')
+        .header('x-accel-buffering', 'no')
+        .send(body);
+    }
+  );
+};
+
+export default fp(runEventsPlugin, {
+  name: 'run-events',
+  dependencies: ['env'],
+});
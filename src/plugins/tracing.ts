@@ -0,0 +1,121 @@
+import fp from 'fastify-plugin';
+import { context, propagation, SpanKind, SpanStatusCode, trace } from '@opentelemetry/api';
+import type { Context, Span } from '@opentelemetry/api';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { registerInstrumentations } from '@opentelemetry/instrumentation';
+import { Resource } from '@opentelemetry/resources';
+import {
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import type { SpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import {
+  ATTR_HTTP_REQUEST_METHOD,
+  ATTR_HTTP_RESPONSE_STATUS_CODE,
+  ATTR_HTTP_ROUTE,
+  ATTR_SERVICE_NAME,
+  ATTR_URL_PATH,
+} from '@opentelemetry/semantic-conventions';
+import { PrismaInstrumentation } from '@prisma/instrumentation';
+import type { FastifyPluginAsync } from 'fastify';
+import { FileSpanExporter } from '../utils/file-span-exporter.js';
+import type { Env } from './env.js';
+
+// Extend request type
+declare module 'fastify' {
+  interface FastifyRequest {
+    span?: Span;
+    traceContext?: Context;
+  }
+}
+
+/**
+ * Pick the span processor for the configured exporter
+ */
+function createSpanProcessor(config: Env): SpanProcessor {
+  switch (config.TRACING_EXPORTER) {
+    case 'otlp':
+      return new BatchSpanProcessor(new OTLPTraceExporter({ url: config.TRACING_OTLP_ENDPOINT }));
+    case 'file':
+      return new BatchSpanProcessor(new FileSpanExporter(config.TRACING_FILE_PATH));
+    default:
+      return new SimpleSpanProcessor(new ConsoleSpanExporter());
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/require-await
+const tracingPlugin: FastifyPluginAsync = async (fastify) => {
+  if (!fastify.config.TRACING_ENABLED) {
+    return;
+  }
+
+  const provider = new NodeTracerProvider({
+    resource: new Resource({ [ATTR_SERVICE_NAME]: fastify.config.TRACING_SERVICE_NAME }),
+  });
+  provider.addSpanProcessor(createSpanProcessor(fastify.config));
+  provider.register();
+
+  // Prisma queries become children of the active stage span
+  registerInstrumentations({
+    tracerProvider: provider,
+    instrumentations: [new PrismaInstrumentation()],
+  });
+
+  const tracer = trace.getTracer('http');
+
+  // One server span per request, continuing any incoming trace
+  fastify.addHook('onRequest', (request, _reply, done) => {
+    const route = request.routeOptions.url ?? request.url;
+    const parent = propagation.extract(context.active(), request.headers);
+    const span = tracer.startSpan(
+      `${request.method} ${route}`,
+      {
+        kind: SpanKind.SERVER,
+        attributes: {
+          [ATTR_HTTP_REQUEST_METHOD]: request.method,
+          [ATTR_HTTP_ROUTE]: route,
+          [ATTR_URL_PATH]: request.url,
+          'http.request_id': request.id,
+        },
+      },
+      parent
+    );
+
+    request.span = span;
+    request.traceContext = trace.setSpan(parent, span);
+    done();
+  });
+
+  // Activate the request span for the handler so orchestrator spans nest under it
+  fastify.addHook('preHandler', (request, _reply, done) => {
+    if (request.traceContext) {
+      context.with(request.traceContext, done);
+    } else {
+      done();
+    }
+  });
+
+  fastify.addHook('onResponse', async (request, reply) => {
+    if (!request.span) {
+      return;
+    }
+
+    request.span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, reply.statusCode);
+    if (reply.statusCode >= 500) {
+      request.span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+    request.span.end();
+  });
+
+  // Flush pending spans on shutdown
+  fastify.addHook('onClose', async () => {
+    await provider.shutdown();
+  });
+};
+
+export default fp(tracingPlugin, {
+  name: 'tracing',
+  dependencies: ['env'],
+});
@@ -0,0 +1,114 @@
+import { Type } from '@sinclair/typebox';
+import type { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
+import { OrchestratorRegistry } from '@core/orchestration/index.js';
+
+const StageInfoSchema = Type.Object({
+  name: Type.String(),
+  critical: Type.Boolean(),
+  timeout: Type.Optional(Type.Number()),
+  mode: Type.Union([Type.Literal('inline'), Type.Literal('deferred')]),
+  dependsOn: Type.Optional(Type.Array(Type.String())),
+  maxAttempts: Type.Number(),
+  conditional: Type.Boolean(),
+  compensated: Type.Boolean(),
+  transaction: Type.Optional(Type.String()),
+  fallback: Type.Boolean(),
+  circuitBreaker: Type.Boolean(),
+});
+
+const OrchestratorSchema = Type.Object({
+  name: Type.String(),
+  timeout: Type.Number(),
+  enableMetrics: Type.Boolean(),
+  logErrors: Type.Boolean(),
+  idempotent: Type.Boolean(),
+  durable: Type.Boolean(),
+  queued: Type.Boolean(),
+  transactional: Type.Boolean(),
+  maxConcurrency: Type.Optional(Type.Number()),
+  maxQueue: Type.Optional(Type.Number()),
+  stages: Type.Array(StageInfoSchema),
+  stats: Type.Object({
+    activeOperations: Type.Number(),
+    queuedOperations: Type.Number(),
+    runs: Type.Object({ success: Type.Number(), error: Type.Number() }),
+    averageDuration: Type.Union([Type.Number(), Type.Null()]),
+    stages: Type.Record(
+      Type.String(),
+      Type.Object({
+        averageLatency: Type.Union([Type.Number(), Type.Null()]),
+        outcomes: Type.Record(Type.String(), Type.Number()),
+      })
+    ),
+  }),
+});
+
+/**
+ * Admin Routes - runtime introspection of the registered orchestrators
+ */
+// eslint-disable-next-line @typescript-eslint/require-await
+const adminRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
+  // Every admin route requires an authenticated admin
+  fastify.addHook('preValidation', fastify.authenticate);
+  fastify.addHook('preValidation', fastify.authorize(['admin']));
+
+  // List orchestrators
+  fastify.get(
+    '/orchestrators',
+    {
+      schema: {
+        description: 'List registered orchestrators with their pipelines and live stats',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: Type.Object({
+            success: Type.Literal(true),
+            data: Type.Array(OrchestratorSchema),
+          }),
+        },
+      },
+    },
+    async (_request, reply) => {
+      const data = await Promise.all(
+        OrchestratorRegistry.list().map(async (info) => ({
+          ...info,
+          stats: await OrchestratorRegistry.getStats(info.name),
+        }))
+      );
+
+      return reply.send({ success: true, data });
+    }
+  );
+
+  // Get one orchestrator
+  fastify.get(
+    '/orchestrators/:name',
+    {
+      schema: {
+        description: 'Get one orchestrator with its pipeline and live stats',
+        tags: ['Admin'],
+        security: [{ bearerAuth: [] }],
+        params: Type.Object({ name: Type.String() }),
+        response: {
+          200: Type.Object({
+            success: Type.Literal(true),
+            data: OrchestratorSchema,
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const info = OrchestratorRegistry.get(request.params.name);
+      if (!info) {
+        return reply.notFound(`Orchestrator '${request.params.name}' not found`);
+      }
+
+      return reply.send({
+        success: true,
+        data: { ...info, stats: await OrchestratorRegistry.getStats(info.name) },
+      });
+    }
+  );
+};
+
+export default adminRoutes;
@@ -1,5 +1,15 @@
 import { Type } from '@sinclair/typebox';
 import type { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
+import { OrchestratorRegistry } from '@core/orchestration/index.js';
+
+const CircuitBreakersSchema = Type.Array(
+  Type.Object({
+    orchestrator: Type.String(),
+    stage: Type.String(),
+    state: Type.Union([Type.Literal('closed'), Type.Literal('half_open'), Type.Literal('open')]),
+    retryIn: Type.Number(),
+  })
+);
 
 const healthRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
   // Health check endpoint
@@ -34,7 +44,8 @@ const healthRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
     '/ready',
     {
       schema: {
-        description: 'Readiness check endpoint - checks database connection',
+        description:
+          'Readiness check endpoint - checks database connection and reports stage circuit breakers',
         tags: ['Health'],
         response: {
           200: Type.Object({
@@ -42,6 +53,7 @@ const healthRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
             services: Type.Object({
               database: Type.Boolean(),
             }),
+            circuitBreakers: CircuitBreakersSchema,
             timestamp: Type.String(),
           }),
           503: Type.Object({
@@ -49,6 +61,7 @@ const healthRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
             services: Type.Object({
               database: Type.Boolean(),
             }),
+            circuitBreakers: CircuitBreakersSchema,
             timestamp: Type.String(),
           }),
         },
@@ -73,6 +86,8 @@ const healthRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
         services: {
           database: isDatabaseReady,
         },
+        // Open breakers degrade single stages; they do not make the instance unready
+        circuitBreakers: OrchestratorRegistry.circuitBreakers(),
         timestamp: new Date().toISOString(),
       });
     }
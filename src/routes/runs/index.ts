@@ -0,0 +1,43 @@
+import { Type } from '@sinclair/typebox';
+import type { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
+
+/**
+ * Run Routes - live progress of orchestrator runs
+ *
+ * Runs are identified by the server-generated id sent in the `x-run-id`
+ * header of the streamed response that started them.
+ */
+// eslint-disable-next-line @typescript-eslint/require-await
+const runRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
+  // Stream run events
+  fastify.get(
+    '/:id/events',
+    {
+      preValidation: [fastify.authenticate],
+      schema: {
+        description:
+          'Stream the progress events of a run as Server-Sent Events, replaying those already emitted',
+        tags: ['Runs'],
+        security: [{ bearerAuth: [] }],
+        params: Type.Object({ id: Type.String() }),
+        headers: Type.Object({
+          'last-event-id': Type.Optional(
+            Type.Integer({ minimum: 0, description: 'Resume after this event' })
+          ),
+        }),
+      },
+    },
+    async (request, reply) => {
+      const stream = fastify.runEvents.get(request.params.id);
+
+      // Runs of other users are reported as missing rather than forbidden
+      if (!stream || stream.owner !== request.user.id) {
+        return reply.notFound(`Run '${request.params.id}' not found`);
+      }
+
+      return reply.sendEvents(stream, request.headers['last-event-id']);
+    }
+  );
+};
+
+export default runRoutes;
@@ -1,12 +1,47 @@
 import { Type } from '@sinclair/typebox';
+import type { Static } from '@sinclair/typebox';
 import type { FastifyPluginAsyncTypebox } from '@fastify/type-provider-typebox';
-import { TodoService } from '@services/todo/index.js';
+import {
+  IdempotencyConflictError,
+  IdempotencyMismatchError,
+  OrchestratorOverloadError,
+  OrchestratorValidationError,
+} from '@core/orchestration/index.js';
+import { CreateTodoInputSchema, TodoService } from '@services/todo/index.js';
+import type { Todo } from '@services/todo/types/index.js';
+
+const TodoDataSchema = Type.Object({
+  id: Type.String(),
+  title: Type.String(),
+  description: Type.String(),
+  completed: Type.Boolean(),
+  userId: Type.String(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+});
+
+const ValidationIssuesSchema = Type.Array(
+  Type.Object({ path: Type.String(), message: Type.String() }),
+  { description: 'Fields that failed schema validation' }
+);
+
+/**
+ * Shape a created todo for the response
+ */
+function serializeTodo(todo: Todo): Static<typeof TodoDataSchema> {
+  return {
+    ...todo,
+    description: todo.description || '',
+    createdAt: todo.createdAt.toISOString(),
+    updatedAt: todo.updatedAt.toISOString(),
+  };
+}
 
 /**
  * Todo Routes - Demonstrates Golden Orchestrator Pattern
  *
  * This route uses the TodoService which implements the pipeline pattern:
- * Route → Service → Orchestrator → Operations (validate → create → notify)
+ * Route → Service → Orchestrator → Operations (create → notify)
  *
  * Compare this to the /examples route which uses direct Prisma access.
  * The golden pattern provides:
@@ -16,8 +51,25 @@ import { TodoService } from '@services/todo/index.js';
  * - Error handling and timeout protection
  */
 const todoRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
-  // Create service instance with Prisma
-  const todoService = new TodoService(fastify.prisma);
+  // Create service instance with Prisma and, when it runs, the job queue for
+  // deferred stages; without a running queue they run inline
+  const todoService = new TodoService(
+    fastify.prisma,
+    fastify.config.JOB_QUEUE_ENABLED ? fastify.jobQueue : undefined
+  );
+
+  // Resume todo creations interrupted by a crash or deploy, without delaying startup
+  fastify.addHook('onReady', (done) => {
+    todoService
+      .recover()
+      .then((results) => {
+        if (results.length > 0) {
+          fastify.log.info({ count: results.length }, 'Resumed interrupted todo runs');
+        }
+      })
+      .catch((error: unknown) => fastify.log.error({ err: error }, 'Todo run recovery failed'));
+    done();
+  });
 
   // Create Todo endpoint - Uses Golden Orchestrator Pattern
   fastify.post(
@@ -28,37 +80,74 @@ const todoRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
         description: 'Create a new todo using the Golden Orchestrator pattern',
         tags: ['Todos'],
         security: [{ bearerAuth: [] }],
-        body: Type.Object({
-          title: Type.String({
-            minLength: 1,
-            maxLength: 200,
-            description: 'Todo title',
-          }),
-          description: Type.String({
-            maxLength: 1000,
-            description: 'Todo description',
-          }),
+        querystring: Type.Object({
+          stream: Type.Optional(
+            Type.Boolean({
+              description:
+                'Respond with the progress of the run as Server-Sent Events; the x-run-id header names the run',
+            })
+          ),
+        }),
+        headers: Type.Object({
+          'idempotency-key': Type.Optional(
+            Type.String({
+              minLength: 1,
+              maxLength: 255,
+              description:
+                'Retries with the same key replay the first response; reusing it for a different todo fails with 422',
+            })
+          ),
         }),
+        // The orchestrator's input contract; userId comes from the token
+        body: Type.Omit(CreateTodoInputSchema, ['userId']),
         response: {
           201: Type.Object({
             success: Type.Literal(true),
-            data: Type.Object({
-              id: Type.String(),
-              title: Type.String(),
-              description: Type.String(),
-              completed: Type.Boolean(),
-              userId: Type.String(),
-              createdAt: Type.String({ format: 'date-time' }),
-              updatedAt: Type.String({ format: 'date-time' }),
-            }),
+            data: TodoDataSchema,
             metadata: Type.Optional(
               Type.Object({
                 duration: Type.Number({ description: 'Total execution time in ms' }),
                 metrics: Type.Optional(Type.Record(Type.String(), Type.Number())),
+                timings: Type.Optional(
+                  Type.Record(
+                    Type.String(),
+                    Type.Object({
+                      count: Type.Number(),
+                      total: Type.Number(),
+                      min: Type.Number(),
+                      max: Type.Number(),
+                      last: Type.Number(),
+                    }),
+                    { description: 'Every sample per stage and sub-timer' }
+                  )
+                ),
               })
             ),
           }),
           400: Type.Object({
+            success: Type.Literal(false),
+            error: Type.Object({
+              message: Type.String(),
+              statusCode: Type.Number(),
+              stage: Type.Optional(Type.String({ description: 'Pipeline stage that failed' })),
+              issues: Type.Optional(ValidationIssuesSchema),
+            }),
+          }),
+          409: Type.Object({
+            success: Type.Literal(false),
+            error: Type.Object({
+              message: Type.String(),
+              statusCode: Type.Number(),
+            }),
+          }),
+          422: Type.Object({
+            success: Type.Literal(false),
+            error: Type.Object({
+              message: Type.String(),
+              statusCode: Type.Number(),
+            }),
+          }),
+          503: Type.Object({
             success: Type.Literal(false),
             error: Type.Object({
               message: Type.String(),
@@ -69,12 +158,58 @@ const todoRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
       },
     },
     async (request, reply) => {
+      const idempotencyKey = request.headers['idempotency-key'];
+
+      // Only streamed runs buffer events. The x-run-id response header names the
+      // stream, so a client that loses the connection can resume on GET /runs/:id/events
+      const run = request.query.stream ? fastify.runEvents.open(request.user.id) : undefined;
+
       // Call the TodoService - it will use the orchestrator pattern internally
-      const result = await todoService.createTodo({
-        title: request.body.title,
-        description: request.body.description,
-        userId: request.user.id,
-      });
+      const running = todoService.createTodo(
+        {
+          title: request.body.title,
+          description: request.body.description,
+          userId: request.user.id,
+        },
+        {
+          signal: request.abortSignal,
+          // Scoped per user so keys chosen by different clients never collide
+          idempotencyKey: idempotencyKey && `${request.user.id}:${idempotencyKey}`,
+          events: run?.stream,
+        }
+      );
+
+      // The outcome arrives as the final `run_finished` event
+      if (run) {
+        running.catch((error: unknown) => request.log.error({ err: error }, 'Todo run failed'));
+        return reply.header('x-run-id', run.id).sendEvents(run.stream);
+      }
+
+      const result = await running;
+
+      // The first request with this key is still running
+      if (result.error instanceof IdempotencyConflictError) {
+        return reply.status(409).send({
+          success: false,
+          error: { message: result.error.message, statusCode: 409 },
+        });
+      }
+
+      // The key was first used for a different todo
+      if (result.error instanceof IdempotencyMismatchError) {
+        return reply.status(422).send({
+          success: false,
+          error: { message: result.error.message, statusCode: 422 },
+        });
+      }
+
+      // Too many todo creations in flight - tell the client when to come back
+      if (result.error instanceof OrchestratorOverloadError) {
+        return reply
+          .status(503)
+          .header('retry-after', result.error.retryAfter)
+          .send({ success: false, error: { message: result.error.message, statusCode: 503 } });
+      }
 
       // Handle orchestrator errors
       if (!result.success) {
@@ -83,22 +218,102 @@ const todoRoutes: FastifyPluginAsyncTypebox = async (fastify) => {
           error: {
             message: result.error?.message || 'Failed to create todo',
             statusCode: 400,
+            stage: result.error?.stage,
+            ...(result.error instanceof OrchestratorValidationError && {
+              issues: result.error.issues,
+            }),
           },
         });
       }
 
+      if (result.replayed) {
+        void reply.header('idempotent-replayed', 'true');
+      }
+
       // Success response with optional performance metadata
       return reply.status(201).send({
         success: true,
-        data: {
-          ...result.data!,
-          description: result.data!.description || '',
-          createdAt: result.data!.createdAt.toISOString(),
-          updatedAt: result.data!.updatedAt.toISOString(),
-        },
+        data: serializeTodo(result.data!),
         metadata: {
           duration: result.duration,
           metrics: result.metrics, // Per-operation timing
+          timings: result.timings,
+        },
+      });
+    }
+  );
+
+  // Create many todos in one request, each through its own pipeline run
+  fastify.post(
+    '/batch',
+    {
+      preValidation: [fastify.authenticate],
+      schema: {
+        description: 'Create up to 100 todos, reporting the outcome of each',
+        tags: ['Todos'],
+        security: [{ bearerAuth: [] }],
+        body: Type.Object({
+          todos: Type.Array(Type.Omit(CreateTodoInputSchema, ['userId']), {
+            minItems: 1,
+            maxItems: 100,
+          }),
+          stopOnError: Type.Optional(
+            Type.Boolean({ description: 'Skip the remaining todos once one fails' })
+          ),
+        }),
+        response: {
+          200: Type.Object({
+            success: Type.Literal(true),
+            data: Type.Object({
+              results: Type.Array(
+                Type.Object({
+                  success: Type.Boolean(),
+                  data: Type.Optional(TodoDataSchema),
+                  error: Type.Optional(
+                    Type.Object({
+                      message: Type.String(),
+                      stage: Type.String(),
+                      issues: Type.Optional(ValidationIssuesSchema),
+                    })
+                  ),
+                })
+              ),
+              summary: Type.Object({
+                total: Type.Number(),
+                succeeded: Type.Number(),
+                failed: Type.Number(),
+                skipped: Type.Number(),
+                duration: Type.Number({ description: 'Total execution time in ms' }),
+              }),
+            }),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { results, summary } = await todoService.createTodos(
+        request.body.todos.map((todo) => ({ ...todo, userId: request.user.id })),
+        { signal: request.abortSignal, stopOnError: request.body.stopOnError }
+      );
+
+      return reply.send({
+        success: true,
+        data: {
+          results: results.map((result) =>
+            result.success
+              ? { success: true, data: serializeTodo(result.data!) }
+              : {
+                  success: false,
+                  error: {
+                    message: result.error?.message ?? 'Failed to create todo',
+                    stage: result.error?.stage ?? 'unknown',
+                    ...(result.error instanceof OrchestratorValidationError && {
+                      issues: result.error.issues,
+                    }),
+                  },
+                }
+          ),
+          summary,
         },
       });
     }
@@ -1,6 +1,8 @@
-import { describe, it, expect, vi } from 'vitest';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { OrchestratorValidationError } from '@core/orchestration/index.js';
+import { OrchestratorTestKit } from '@core/orchestration/test-kit.js';
 import { CreateTodoOrchestrator } from '@services/todo/todo-orchestrator.js';
-import type { CreateTodoInput } from '@services/todo/types/index.js';
+import type { CreateTodoInput, Todo, TodoPipelineContext } from '@services/todo/types/index.js';
 import type { PrismaClient } from '@prisma/client';
 
 // Mock Prisma Client
@@ -16,6 +18,11 @@ const mockPrisma = {
       updatedAt: new Date(),
     }),
   },
+  orchestratorRun: {
+    create: vi.fn().mockResolvedValue({ id: 'run-1' }),
+    update: vi.fn().mockResolvedValue({}),
+    delete: vi.fn().mockResolvedValue({}),
+  },
 } as unknown as PrismaClient;
 
 describe('CreateTodoOrchestrator', () => {
@@ -49,8 +56,35 @@ describe('CreateTodoOrchestrator', () => {
     const result = await orchestrator.execute(input);
 
     expect(result.success).toBe(false);
-    expect(result.error).toBeDefined();
-    expect(result.error?.message).toContain('failed');
+    expect(result.error).toBeInstanceOf(OrchestratorValidationError);
+    expect(result.error?.stage).toBe('input');
+    expect((result.error as OrchestratorValidationError).issues.map((issue) => issue.path)).toEqual(
+      ['/title', '/title']
+    );
+    expect(result.stages).toEqual([]);
+  });
+
+  it('should reject a result that breaks the output contract', async () => {
+    const prisma = {
+      todo: {
+        create: vi.fn().mockResolvedValue({ id: 'test-id-123', title: 'No dates' }),
+        delete: vi.fn().mockResolvedValue({}),
+      },
+      orchestratorRun: {
+        create: vi.fn().mockResolvedValue({ id: 'run-2' }),
+        update: vi.fn().mockResolvedValue({}),
+      },
+    } as unknown as PrismaClient;
+
+    const result = await new CreateTodoOrchestrator(prisma).execute({
+      title: 'No dates',
+      description: '',
+      userId: 'test-user-123',
+    });
+
+    expect(result.error).toBeInstanceOf(OrchestratorValidationError);
+    expect(result.error?.stage).toBe('output');
+    expect(result.compensations).toEqual([{ stage: 'create-todo', status: 'compensated' }]);
   });
 
   it('should track performance metrics', async () => {
@@ -64,8 +98,123 @@ describe('CreateTodoOrchestrator', () => {
     const result = await orchestrator.execute(input);
 
     expect(result.metrics).toBeDefined();
-    expect(result.metrics?.['validate-input']).toBeGreaterThanOrEqual(0);
     expect(result.metrics?.['create-todo']).toBeGreaterThanOrEqual(0);
     expect(result.metrics?.['notify-creation']).toBeGreaterThanOrEqual(0);
   });
+
+  it('should resume an interrupted run without creating the todo again', async () => {
+    const createdAt = new Date('2026-01-01T00:00:00.000Z');
+    const prisma = {
+      todo: { create: vi.fn() },
+      orchestratorRun: {
+        findMany: vi.fn().mockResolvedValue([
+          {
+            id: 'run-1',
+            updatedAt: createdAt,
+            input: { value: { title: 'Resumed', description: '', userId: 'test-user-123' } },
+            stages: [
+              {
+                stage: 'create-todo',
+                state: {
+                  value: {
+                    todo: {
+                      id: 'test-id-123',
+                      title: 'Resumed',
+                      description: null,
+                      completed: false,
+                      userId: 'test-user-123',
+                      createdAt: createdAt.toISOString(),
+                      updatedAt: createdAt.toISOString(),
+                    },
+                  },
+                },
+              },
+            ],
+          },
+        ]),
+        updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+        update: vi.fn().mockResolvedValue({}),
+        delete: vi.fn().mockResolvedValue({}),
+      },
+    };
+
+    const [result] = await new CreateTodoOrchestrator(prisma as unknown as PrismaClient).recover();
+
+    expect(result?.success).toBe(true);
+    expect(result?.runId).toBe('run-1');
+    expect(result?.data?.createdAt).toEqual(createdAt);
+    expect(result?.stages.map((stage) => stage.name)).toEqual(['notify-creation']);
+    expect(prisma.todo.create).not.toHaveBeenCalled();
+    expect(prisma.orchestratorRun.delete).toHaveBeenCalledWith({ where: { id: 'run-1' } });
+  });
+
+  describe('with the test kit', () => {
+    let kit: OrchestratorTestKit<TodoPipelineContext, Todo, CreateTodoInput>;
+    const input: CreateTodoInput = {
+      title: 'Kit Todo',
+      description: 'Driven by the test kit',
+      userId: 'test-user-123',
+    };
+
+    const createKit = () => {
+      kit = new OrchestratorTestKit(new CreateTodoOrchestrator(mockPrisma));
+      return kit;
+    };
+
+    afterEach(() => kit.restore());
+
+    it('runs the stages in pipeline order', async () => {
+      const result = await createKit().execute(input);
+
+      expect(result.success).toBe(true);
+      expect(kit.started()).toEqual(['create-todo', 'notify-creation']);
+    });
+
+    it('keeps the todo when the non-critical notification fails', async () => {
+      const result = await createKit().fail('notify-creation').execute(input);
+
+      expect(result.success).toBe(true);
+      expect(kit.eventsOf('notify-creation')).toEqual(['started', 'failed']);
+      expect(result.stages.find((stage) => stage.name === 'notify-creation')?.status).toBe(
+        'failed'
+      );
+    });
+
+    it('times out a slow insert after the stage timeout', async () => {
+      const result = await createKit().useFakeClock().delay('create-todo', 10000).execute(input);
+
+      expect(result.success).toBe(false);
+      expect(result.stages.find((stage) => stage.name === 'create-todo')?.status).toBe('timed_out');
+      const failure = kit.trace.find((entry) => entry.event === 'failed');
+      expect(failure).toMatchObject({ stage: 'create-todo', duration: 2000 });
+      expect(kit.eventsOf('notify-creation')).toEqual([]);
+    });
+
+    it('retries transient insert failures', async () => {
+      const transient = Object.assign(new Error('Pool timeout'), { code: 'P2024' });
+      const todo: Todo = {
+        id: 'stub-id',
+        title: input.title,
+        description: input.description,
+        completed: false,
+        userId: input.userId,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      const stubbed = vi.fn((context: TodoPipelineContext) =>
+        Promise.resolve({ ...context, todo })
+      );
+
+      const result = await createKit()
+        .useFakeClock()
+        .fail('create-todo', transient, 2)
+        .stub('create-todo', stubbed)
+        .execute(input);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.id).toBe('stub-id');
+      expect(result.stages.find((stage) => stage.name === 'create-todo')?.attempts).toBe(3);
+      expect(stubbed).toHaveBeenCalledTimes(1);
+    });
+  });
 });
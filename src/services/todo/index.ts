@@ -1,8 +1,16 @@
 import { CreateTodoOrchestrator } from './todo-orchestrator.js';
 import type { CreateTodoInput, Todo } from './types/index.js';
-import type { OrchestratorResult } from '@core/orchestration/index.js';
+import type {
+  BatchOptions,
+  BatchResult,
+  ExecuteOptions,
+  OrchestratorResult,
+} from '@core/orchestration/index.js';
+import type { JobQueue } from '@core/queue/index.js';
 import type { PrismaClient } from '@prisma/client';
 
+export { CreateTodoInputSchema, TodoSchema } from './types/index.js';
+
 /**
  * Todo Service - Example of Golden Standard architecture
  *
@@ -14,14 +22,40 @@ import type { PrismaClient } from '@prisma/client';
  * - Separation of concerns
  */
 export class TodoService {
-  constructor(private prisma: PrismaClient) {}
+  private createOrchestrator: CreateTodoOrchestrator;
+
+  /**
+   * Without a job queue, deferred stages such as notifications run inline
+   */
+  constructor(prisma: PrismaClient, queue?: JobQueue) {
+    this.createOrchestrator = new CreateTodoOrchestrator(prisma, queue);
+  }
 
   /**
    * Create a new todo
    */
-  public async createTodo(input: CreateTodoInput): Promise<OrchestratorResult<Todo>> {
-    const orchestrator = new CreateTodoOrchestrator(this.prisma);
-    return orchestrator.execute(input);
+  public async createTodo(
+    input: CreateTodoInput,
+    options?: ExecuteOptions
+  ): Promise<OrchestratorResult<Todo>> {
+    return this.createOrchestrator.execute(input, options);
+  }
+
+  /**
+   * Create several todos, each in its own pipeline run
+   */
+  public async createTodos(
+    inputs: CreateTodoInput[],
+    options?: BatchOptions
+  ): Promise<BatchResult<Todo>> {
+    return this.createOrchestrator.executeMany(inputs, options);
+  }
+
+  /**
+   * Resume todo creations interrupted by a crash or deploy
+   */
+  public async recover(): Promise<OrchestratorResult<Todo>[]> {
+    return this.createOrchestrator.recover();
   }
 
   /**
@@ -1,30 +1,46 @@
 import type { TodoPipelineContext } from '../types/index.js';
 import type { CreateTodoInput } from '../types/index.js';
 
-export async function createTodo(context: TodoPipelineContext): Promise<TodoPipelineContext> {
-  // Skip if validation failed
-  if (context.validationErrors && context.validationErrors.length > 0) {
-    return context;
-  }
+// Prisma error codes for connection drops, pool exhaustion and write conflicts
+const TRANSIENT_PRISMA_CODES = new Set(['P1001', 'P1002', 'P1008', 'P1017', 'P2024', 'P2034']);
+
+/**
+ * Whether a Prisma error is likely to succeed on retry
+ */
+export function isTransientPrismaError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && TRANSIENT_PRISMA_CODES.has(code);
+}
 
+export async function createTodo(context: TodoPipelineContext): Promise<TodoPipelineContext> {
   const input = context.input as CreateTodoInput;
 
-  try {
-    // Create todo in database using Prisma
-    const todo = await context.prisma.todo.create({
-      data: {
-        title: input.title,
-        description: input.description || null,
-        userId: input.userId,
-        completed: false,
-      },
-    });
-
-    context.todo = todo;
-    context.results.createdTodo = todo;
-  } catch (error) {
-    context.errors.push(error as Error);
-  }
+  // Don't insert once the stage has timed out or the client has gone away
+  context.signal?.throwIfAborted();
+
+  // Create todo in database using Prisma - errors propagate so the stage retry policy applies
+  const todo = await (context.tx ?? context.prisma).todo.create({
+    data: {
+      title: input.title,
+      description: input.description || null,
+      userId: input.userId,
+      completed: false,
+    },
+  });
+
+  context.todo = todo;
+  context.results.createdTodo = todo;
 
   return context;
 }
+
+/**
+ * Compensation for createTodo - removes the todo if a later critical stage fails
+ */
+export async function removeTodo(context: TodoPipelineContext): Promise<void> {
+  if (!context.todo) {
+    return;
+  }
+
+  await (context.tx ?? context.prisma).todo.delete({ where: { id: context.todo.id } });
+}
@@ -1,24 +1,22 @@
 import type { TodoPipelineContext } from '../types/index.js';
 
 export async function notifyCreation(context: TodoPipelineContext): Promise<TodoPipelineContext> {
-  // Skip if no todo was created
-  if (!context.todo) {
-    return context;
+  const { todo } = context;
+  if (!todo) {
+    throw new Error('notify-creation requires a created todo');
   }
 
   // Simulate notification (could be email, webhook, etc.)
   // In production, this might send to a message queue
   context.results.notificationSent = {
     type: 'todo.created',
-    todoId: context.todo.id,
-    userId: context.todo.userId,
+    todoId: todo.id,
+    userId: todo.userId,
     timestamp: new Date().toISOString(),
   };
 
   // Log for demo purposes
-  if (process.env.NODE_ENV === 'development') {
-    console.log(`[Notification] Todo created: ${context.todo.title}`);
-  }
+  context.logger?.info({ event: 'todo.created', todoId: todo.id }, 'Notification sent');
 
   return context;
 }
@@ -1,28 +1,77 @@
-import { BaseOrchestrator, DefaultPerformanceTracker } from '@core/orchestration/index.js';
+import { randomUUID } from 'node:crypto';
+import {
+  BaseOrchestrator,
+  DefaultPerformanceTracker,
+  PipelineCatalog,
+  PipelineConfigLoader,
+  PrismaIdempotencyStore,
+  PrismaRunStore,
+  PrismaTransactionRunner,
+} from '@core/orchestration/index.js';
 import type { PipelineStage } from '@core/orchestration/index.js';
+import type { JobQueue } from '@core/queue/index.js';
+import { CreateTodoInputSchema, TodoSchema } from './types/index.js';
 import type { TodoPipelineContext, CreateTodoInput, Todo } from './types/index.js';
 import type { PrismaClient } from '@prisma/client';
-import { validateInput } from './operations/validate-input.js';
-import { createTodo } from './operations/create-todo.js';
+import { createTodo, isTransientPrismaError, removeTodo } from './operations/create-todo.js';
 import { notifyCreation } from './operations/notify-creation.js';
 
+/**
+ * Names the pipeline file can refer to
+ */
+const catalog = new PipelineCatalog<TodoPipelineContext>()
+  .operation('createTodo', createTodo)
+  .operation('notifyCreation', notifyCreation)
+  .condition('hasTodo', (context) => Boolean(context.todo))
+  .compensation('removeTodo', removeTodo)
+  .retryPredicate('isTransientPrismaError', isTransientPrismaError);
+
+/**
+ * Restore a todo read back from JSON
+ */
+function reviveTodo(data: unknown): Todo {
+  const todo = data as Omit<Todo, 'createdAt' | 'updatedAt'> & {
+    createdAt: string;
+    updatedAt: string;
+  };
+  return { ...todo, createdAt: new Date(todo.createdAt), updatedAt: new Date(todo.updatedAt) };
+}
+
 export class CreateTodoOrchestrator extends BaseOrchestrator<
   TodoPipelineContext,
   Todo,
   CreateTodoInput
 > {
-  constructor(private prisma: PrismaClient) {
+  private pipeline: PipelineStage<TodoPipelineContext>[];
+
+  constructor(
+    private prisma: PrismaClient,
+    queue?: JobQueue
+  ) {
     super({
       name: 'CreateTodoOrchestrator',
       timeout: 5000,
       enableMetrics: true,
       logErrors: true,
+      // Shared with the todo routes, see types/schemas.ts
+      input: CreateTodoInputSchema,
+      output: TodoSchema,
+      idempotency: { store: new PrismaIdempotencyStore(prisma) },
+      durability: { store: new PrismaRunStore(prisma) },
+      queue,
+      transactions: new PrismaTransactionRunner(prisma),
+      // Leave connections in the Prisma pool for the rest of the app under bursts
+      maxConcurrency: 10,
+      maxQueue: 100,
     });
+    // Fails startup with a PipelineConfigError if the file is invalid
+    this.pipeline = PipelineConfigLoader.load('pipelines/create-todo.yaml', catalog);
   }
 
   protected async initializeContext(input: CreateTodoInput): Promise<TodoPipelineContext> {
     return {
-      requestId: Math.random().toString(36).substr(2, 9),
+      // Replaced by the current request's id when there is one
+      requestId: randomUUID(),
       startTime: Date.now(),
       perfTracker: new DefaultPerformanceTracker(),
       prisma: this.prisma,
@@ -37,26 +86,7 @@ export class CreateTodoOrchestrator extends BaseOrchestrator<
   }
 
   protected getPipeline(): PipelineStage<TodoPipelineContext>[] {
-    return [
-      {
-        name: 'validate-input',
-        operation: validateInput,
-        critical: true,
-        timeout: 1000,
-      },
-      {
-        name: 'create-todo',
-        operation: createTodo,
-        critical: true,
-        timeout: 2000,
-      },
-      {
-        name: 'notify-creation',
-        operation: notifyCreation,
-        critical: false, // Non-critical - don't fail if notification fails
-        timeout: 1000,
-      },
-    ];
+    return this.pipeline;
   }
 
   protected buildResult(context: TodoPipelineContext): Todo {
@@ -65,4 +95,21 @@ export class CreateTodoOrchestrator extends BaseOrchestrator<
     }
     return context.todo;
   }
+
+  protected reviveResult(data: unknown): Todo {
+    return reviveTodo(data);
+  }
+
+  protected serializeContext(context: TodoPipelineContext): unknown {
+    return { todo: context.todo };
+  }
+
+  protected restoreContext(context: TodoPipelineContext, state: unknown): TodoPipelineContext {
+    const { todo } = state as { todo?: unknown };
+    if (todo) {
+      context.todo = reviveTodo(todo);
+      context.results.createdTodo = context.todo;
+    }
+    return context;
+  }
 }
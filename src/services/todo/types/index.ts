@@ -1,22 +1,13 @@
+import type { Static } from '@sinclair/typebox';
 import type { OperationContext } from '@core/orchestration/index.js';
-import type { PrismaClient } from '@prisma/client';
+import type { Prisma, PrismaClient } from '@prisma/client';
+import type { CreateTodoInputSchema, TodoSchema } from './schemas.js';
 
-// Todo type matches Prisma schema
-export interface Todo {
-  id: string;
-  title: string;
-  description: string | null;
-  completed: boolean;
-  userId: string;
-  createdAt: Date;
-  updatedAt: Date;
-}
+export { CreateTodoInputSchema, TodoSchema } from './schemas.js';
 
-export interface CreateTodoInput {
-  title: string;
-  description: string;
-  userId: string;
-}
+export type Todo = Static<typeof TodoSchema>;
+
+export type CreateTodoInput = Static<typeof CreateTodoInputSchema>;
 
 export interface UpdateTodoInput {
   id: string;
@@ -29,7 +20,8 @@ export interface UpdateTodoInput {
 export interface TodoPipelineContext extends OperationContext {
   input: CreateTodoInput | UpdateTodoInput;
   prisma: PrismaClient;
+  /** Set while the stage runs in a transaction group; use it over `prisma` */
+  tx?: Prisma.TransactionClient;
   todo?: Todo;
   todos?: Todo[];
-  validationErrors?: string[];
 }
@@ -0,0 +1,31 @@
+import { Type } from '@sinclair/typebox';
+
+/**
+ * Contract of CreateTodoOrchestrator. The todo routes build their request
+ * schema from it, so both enforce the same rules.
+ */
+export const CreateTodoInputSchema = Type.Object({
+  title: Type.String({
+    minLength: 1,
+    maxLength: 200,
+    // Not blank
+    pattern: '\\S',
+    description: 'Todo title',
+  }),
+  description: Type.String({
+    maxLength: 1000,
+    description: 'Todo description',
+  }),
+  userId: Type.String({ minLength: 1 }),
+});
+
+// Matches the Prisma model
+export const TodoSchema = Type.Object({
+  id: Type.String(),
+  title: Type.String(),
+  description: Type.Union([Type.String(), Type.Null()]),
+  completed: Type.Boolean(),
+  userId: Type.String(),
+  createdAt: Type.Date(),
+  updatedAt: Type.Date(),
+});
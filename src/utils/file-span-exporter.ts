@@ -0,0 +1,52 @@
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { ExportResultCode, hrTimeToMilliseconds } from '@opentelemetry/core';
+import type { ExportResult } from '@opentelemetry/core';
+import type { ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-base';
+
+/**
+ * Span exporter that appends one JSON object per span to a local file.
+ *
+ * Works fully offline, which makes it handy for local debugging and tests.
+ */
+export class FileSpanExporter implements SpanExporter {
+  private ready?: Promise<unknown>;
+
+  constructor(private readonly filePath: string) {}
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    this.ready ??= mkdir(dirname(this.filePath), { recursive: true });
+
+    const lines = spans.map((span) => JSON.stringify(this.serialize(span))).join('\n');
+
+    this.ready
+      .then(() => appendFile(this.filePath, `${lines}\n`))
+      .then(() => resultCallback({ code: ExportResultCode.SUCCESS }))
+      .catch((error: Error) => resultCallback({ code: ExportResultCode.FAILED, error }));
+  }
+
+  shutdown(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  private serialize(span: ReadableSpan) {
+    const spanContext = span.spanContext();
+
+    return {
+      traceId: spanContext.traceId,
+      spanId: spanContext.spanId,
+      parentSpanId: span.parentSpanId,
+      name: span.name,
+      kind: span.kind,
+      startTime: hrTimeToMilliseconds(span.startTime),
+      duration: hrTimeToMilliseconds(span.duration),
+      attributes: span.attributes,
+      status: span.status,
+      events: span.events.map((event) => ({
+        name: event.name,
+        time: hrTimeToMilliseconds(event.time),
+        attributes: event.attributes,
+      })),
+    };
+  }
+}
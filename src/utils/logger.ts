@@ -1,4 +1,5 @@
 import pino from 'pino';
+import { RequestContext } from '@core/context/index.js';
 
 const isProduction = process.env.NODE_ENV === 'production';
 const logLevel = process.env.LOG_LEVEL ?? 'info';
@@ -22,6 +23,11 @@ export const logger = pino({
       return { level: label.toUpperCase() };
     },
   },
+  // Request loggers are already bound to the requestId; add who the request is for
+  mixin: () => {
+    const user = RequestContext.user();
+    return user ? { userId: user.id } : {};
+  },
   serializers: {
     req: pino.stdSerializers.req,
     res: pino.stdSerializers.res,
@@ -5,6 +5,8 @@ export default defineConfig({
   test: {
     globals: true,
     environment: 'node',
+    // Orchestrators log through pino; tests that check logs inject their own logger
+    env: { LOG_LEVEL: 'silent' },
     include: ['src/**/__tests__/**/*.{test,spec}.ts'],
     coverage: {
       provider: 'v8',